@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { CalendarIcon, Clock, Video } from 'lucide-react';
+import { CalendarIcon, Clock, Lock, Video } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -42,6 +43,9 @@ const generateTimeOptions = () => {
 
 const TIME_OPTIONS = generateTimeOptions();
 
+/** Minimum length accepted for meeting passwords. */
+const MIN_PASSWORD_LENGTH = 4;
+
 /**
  * Form component to schedule a meeting and persist it via backend service.
  */
@@ -53,12 +57,15 @@ export function CreateMeetingForm() {
   const [date, setDate] = useState<Date>();
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  const [password, setPassword] = useState('');
   const [formMessage, setFormMessage] = useState('');
   const [errors, setErrors] = useState({
     name: '',
     date: '',
     startTime: '',
     endTime: '',
+    password: '',
   });
   const [isLoading, setIsLoading] = useState(false);
 
@@ -70,6 +77,7 @@ export function CreateMeetingForm() {
       date: '',
       startTime: '',
       endTime: '',
+      password: '',
     };
 
     if (!name.trim()) {
@@ -92,6 +100,10 @@ export function CreateMeetingForm() {
       nextErrors.endTime = 'La hora de fin debe ser posterior a la hora de inicio.';
     }
 
+    if (usePassword && password.length < MIN_PASSWORD_LENGTH) {
+      nextErrors.password = `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+    }
+
     setErrors(nextErrors);
 
     if (Object.values(nextErrors).some(Boolean)) {
@@ -116,6 +128,7 @@ export function CreateMeetingForm() {
         startTime,
         endTime,
         participants: user?.email ? [user.email] : [],
+        password: usePassword ? password : undefined,
       });
 
       upsertMeeting(meeting);
@@ -124,6 +137,8 @@ export function CreateMeetingForm() {
       setDate(undefined);
       setStartTime('');
       setEndTime('');
+      setUsePassword(false);
+      setPassword('');
     } catch (error) {
       toast.error(translateApiError(error));
     } finally {
@@ -263,6 +278,46 @@ export function CreateMeetingForm() {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="meeting-use-password" className="flex items-center gap-2">
+            <Lock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            Proteger con contraseña
+          </Label>
+          <Switch
+            id="meeting-use-password"
+            checked={usePassword}
+            onCheckedChange={(checked) => {
+              setUsePassword(checked);
+              if (!checked) {
+                setPassword('');
+                setErrors((prev) => ({ ...prev, password: '' }));
+              }
+            }}
+          />
+        </div>
+        {usePassword && (
+          <div>
+            <Label htmlFor="meeting-password" className="sr-only">Contraseña de la reunión</Label>
+            <Input
+              id="meeting-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Contraseña para unirse"
+              aria-invalid={Boolean(errors.password)}
+              aria-describedby={errors.password ? 'meeting-password-error' : undefined}
+            />
+            {errors.password && (
+              <p id="meeting-password-error" role="alert" className="mt-1 text-sm text-destructive">
+                {errors.password}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
       <Button
         type="submit"
         className="btn-gradient w-full"
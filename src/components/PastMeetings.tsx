@@ -0,0 +1,49 @@
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Calendar, Clock } from 'lucide-react';
+import { ChatExportMenu } from '@/components/meeting/ChatExportMenu';
+import { getMeetingRole, hasPermission } from '@/lib/meeting-roles';
+import { useAuthStore } from '@/store/authStore';
+import { Meeting } from '@/store/meetingStore';
+
+interface PastMeetingsProps {
+  meetings: Meeting[];
+}
+
+/**
+ * Card list of finished meetings; hosts and co-hosts can export each meeting's chat.
+ */
+export function PastMeetings({ meetings }: PastMeetingsProps) {
+  const { user } = useAuthStore();
+
+  return (
+    <div className="space-y-3">
+      {meetings.map((meeting) => (
+        <div
+          key={meeting.id}
+          className="card-elevated flex flex-col gap-4 p-4 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-foreground truncate">
+              {meeting.name}
+            </h3>
+            <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                {format(parseISO(meeting.date), 'dd MMM yyyy', { locale: es })}
+              </span>
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {meeting.startTime} - {meeting.endTime}
+              </span>
+            </div>
+          </div>
+
+          {hasPermission(getMeetingRole(meeting, user?.id), 'exportChat') && (
+            <ChatExportMenu meeting={meeting} userId={user?.id ?? ''} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
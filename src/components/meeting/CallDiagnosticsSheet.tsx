@@ -0,0 +1,108 @@
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { CandidateType, PeerNetworkStats } from '@/lib/peer-stats';
+import { SignalBars } from './SignalBars';
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+  host: 'Directa (host)',
+  srflx: 'A través de NAT (srflx)',
+  prflx: 'A través de NAT (prflx)',
+  relay: 'Relé TURN (relay)',
+};
+
+interface CallDiagnosticsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Metrics keyed by peer id, as returned by `usePeerStats`. */
+  stats: Record<string, PeerNetworkStats>;
+  /** ICE servers applied to the peer connections. */
+  iceServers: RTCIceServer[];
+  getPeerName: (peerId: string) => string;
+}
+
+function formatMetric(value: number | null, unit: string): string {
+  return value === null ? '—' : `${value} ${unit}`;
+}
+
+function iceServerUrls(iceServers: RTCIceServer[]): string[] {
+  return iceServers.flatMap((server) => (Array.isArray(server.urls) ? server.urls : [server.urls]));
+}
+
+/**
+ * Side drawer with per-peer network metrics and the ICE route each connection uses.
+ * @remarks A `relay` local candidate means media flows through the configured TURN server.
+ */
+export function CallDiagnosticsSheet({ open, onOpenChange, stats, iceServers, getPeerName }: CallDiagnosticsSheetProps) {
+  const urls = iceServerUrls(iceServers);
+  const hasTurn = urls.some((url) => /^turns?:/i.test(url));
+  const peerEntries = Object.entries(stats);
+  const relayedCount = peerEntries.filter(([, peer]) => peer.localCandidateType === 'relay').length;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Diagnóstico de conexión</SheetTitle>
+          <SheetDescription>Métricas de red de cada participante, actualizadas cada pocos segundos.</SheetDescription>
+        </SheetHeader>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-foreground">Servidores ICE</h3>
+          <ul className="space-y-1">
+            {urls.map((url) => (
+              <li key={url} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline">{/^turns?:/i.test(url) ? 'TURN' : 'STUN'}</Badge>
+                <span className="truncate">{url}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {!hasTurn
+              ? 'No hay servidor TURN configurado (VITE_ICE_SERVER_URL).'
+              : relayedCount > 0
+                ? `TURN en uso con ${relayedCount} de ${peerEntries.length} participantes.`
+                : 'TURN configurado, pero ninguna conexión lo está usando.'}
+          </p>
+        </section>
+
+        <ScrollArea className="flex-1">
+          {peerEntries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No hay conexiones activas</p>
+          ) : (
+            <ul className="space-y-3 pr-2">
+              {peerEntries.map(([peerId, peer]) => (
+                <li key={peerId} className="rounded-lg border border-border p-3">
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <span className="truncate text-sm font-medium text-foreground">{getPeerName(peerId)}</span>
+                    <SignalBars quality={peer.quality} />
+                  </div>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                    <dt className="text-muted-foreground">Ruta</dt>
+                    <dd className="text-foreground">
+                      {peer.localCandidateType ? CANDIDATE_LABELS[peer.localCandidateType] : '—'}
+                    </dd>
+                    <dt className="text-muted-foreground">Ruta remota</dt>
+                    <dd className="text-foreground">
+                      {peer.remoteCandidateType ? CANDIDATE_LABELS[peer.remoteCandidateType] : '—'}
+                    </dd>
+                    <dt className="text-muted-foreground">Latencia (RTT)</dt>
+                    <dd className="text-foreground">{formatMetric(peer.rttMs, 'ms')}</dd>
+                    <dt className="text-muted-foreground">Jitter</dt>
+                    <dd className="text-foreground">{formatMetric(peer.jitterMs, 'ms')}</dd>
+                    <dt className="text-muted-foreground">Pérdida de paquetes</dt>
+                    <dd className="text-foreground">{formatMetric(peer.packetLossPct, '%')}</dd>
+                    <dt className="text-muted-foreground">Recepción</dt>
+                    <dd className="text-foreground">{formatMetric(peer.inboundKbps, 'kbps')}</dd>
+                    <dt className="text-muted-foreground">Envío</dt>
+                    <dd className="text-foreground">{formatMetric(peer.outboundKbps, 'kbps')}</dd>
+                  </dl>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,78 @@
+import { Download, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFileSize, getFileTypeLabel, isImageAttachment, isTrustedAttachmentUrl } from '@/lib/chat-attachments';
+import type { ChatAttachment } from '@/services/chat';
+
+interface ChatAttachmentListProps {
+  attachments: ChatAttachment[];
+  /** Own messages use the primary colour scheme. */
+  isOwn: boolean;
+}
+
+/**
+ * Attachments of a chat message: image thumbnails and file cards with a download action.
+ * @remarks Attachments whose URL is not on the upload API (see `isTrustedAttachmentUrl`) are listed
+ * by name only, without preview or link.
+ */
+export function ChatAttachmentList({ attachments, isOwn }: ChatAttachmentListProps) {
+  const isPreviewable = (attachment: ChatAttachment) =>
+    isImageAttachment(attachment) && isTrustedAttachmentUrl(attachment.url);
+  const images = attachments.filter(isPreviewable);
+  const files = attachments.filter((attachment) => !isPreviewable(attachment));
+
+  return (
+    <div className="mt-1 space-y-1">
+      {images.length > 0 && (
+        <div className={cn('grid gap-1', images.length > 1 && 'grid-cols-2')}>
+          {images.map((image) => (
+            <a
+              key={image.attachmentId}
+              href={image.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={image.fileName}
+              className="block overflow-hidden rounded-md"
+            >
+              <img
+                src={isTrustedAttachmentUrl(image.thumbnailUrl) ? image.thumbnailUrl : image.url}
+                alt={image.fileName}
+                loading="lazy"
+                className="max-h-48 w-full object-cover transition-opacity hover:opacity-90"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.map((file) => (
+        <div
+          key={file.attachmentId}
+          className={cn(
+            'flex items-center gap-2 rounded-md border px-2 py-1.5',
+            isOwn ? 'border-primary-foreground/30 bg-primary-foreground/10' : 'border-border bg-background'
+          )}
+        >
+          <FileText className="h-6 w-6 shrink-0" aria-hidden="true" />
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{file.fileName}</p>
+            <p className={cn('text-xs', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+              {getFileTypeLabel(file)} · {formatFileSize(file.size)}
+            </p>
+          </div>
+          {isTrustedAttachmentUrl(file.url) && (
+            <a
+              href={file.url}
+              download={file.fileName}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={`Descargar ${file.fileName}`}
+              className="flex h-7 w-7 shrink-0 items-center justify-center rounded-md hover:bg-black/10"
+            >
+              <Download className="h-4 w-4" />
+            </a>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
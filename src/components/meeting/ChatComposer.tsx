@@ -0,0 +1,406 @@
+import { ClipboardEvent, DragEvent, KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, FileText, Loader2, Paperclip, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { findMentions, getMessagePreview } from '@/lib/chat-markdown';
+import { MAX_ATTACHMENTS_PER_MESSAGE, formatFileSize, validateAttachment } from '@/lib/chat-attachments';
+import type { ChatAttachment, ChatMention, ChatMessage } from '@/services/chat';
+import { EmojiPicker } from './EmojiPicker';
+
+/** Maximum suggestions shown by the mention autocomplete. */
+const MAX_SUGGESTIONS = 5;
+
+/** `@query` right before the caret, at the start of the text or after whitespace. */
+const MENTION_QUERY = /(^|\s)@([\p{L}\p{N}_.-]*)$/u;
+
+interface ChatComposerProps {
+  /** Users that can be mentioned (the local user excluded). */
+  participants: ChatMention[];
+  disabled?: boolean;
+  /** Message being replied to, shown above the input. */
+  replyTo?: ChatMessage | null;
+  onCancelReply?: () => void;
+  /** Uploads a dropped, pasted or picked file; attachments are disabled when omitted. */
+  onUpload?: (file: File) => Promise<ChatAttachment>;
+  onSend: (message: string, mentions: ChatMention[], attachments: ChatAttachment[]) => void;
+  /** Called on every keystroke that leaves text in the input. */
+  onTyping?: () => void;
+  /** Called when the input is cleared, blurred or the message is sent. */
+  onStopTyping?: () => void;
+}
+
+interface PendingAttachment {
+  /** Local id, stable while the upload is in flight. */
+  id: string;
+  file: File;
+  /** Object URL for image previews; revoked when the attachment leaves the composer. */
+  previewUrl?: string;
+  status: 'uploading' | 'ready' | 'error';
+  attachment?: ChatAttachment;
+}
+
+interface MentionQuery {
+  /** Index of the `@` in the text. */
+  start: number;
+  query: string;
+}
+
+/**
+ * Chat input with `@mention` autocomplete, an emoji picker and file attachments.
+ * @remarks Enter sends and Shift+Enter inserts a line break; while suggestions are open, Enter/Tab
+ * pick the highlighted user. Files can be picked, dropped onto the composer or pasted; each one is
+ * uploaded right away and the message can be sent once every upload has finished.
+ */
+export function ChatComposer({
+  participants,
+  disabled,
+  replyTo,
+  onCancelReply,
+  onUpload,
+  onSend,
+  onTyping,
+  onStopTyping,
+}: ChatComposerProps) {
+  const [text, setText] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const pendingRef = useRef<PendingAttachment[]>([]);
+  pendingRef.current = pending;
+
+  // Liberar las vistas previas que sigan abiertas al desmontar
+  useEffect(
+    () => () => pendingRef.current.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl)),
+    []
+  );
+
+  const isUploading = pending.some((item) => item.status === 'uploading');
+  const readyAttachments = pending.filter((item) => item.status === 'ready').map((item) => item.attachment);
+  const canSend = !disabled && !isUploading && (Boolean(text.trim()) || readyAttachments.length > 0);
+
+  const updatePending = (id: string, update: Partial<PendingAttachment>) => {
+    setPending((prev) => prev.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  };
+
+  const removePending = (id: string) => {
+    const item = pendingRef.current.find((p) => p.id === id);
+    if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    setPending((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const addFiles = (files: File[]) => {
+    if (!onUpload || disabled || files.length === 0) return;
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingRef.current.length;
+    if (files.length > room) {
+      toast.error(`Puedes adjuntar hasta ${MAX_ATTACHMENTS_PER_MESSAGE} archivos por mensaje`);
+    }
+
+    const accepted = files.slice(0, Math.max(room, 0)).filter((file) => {
+      const error = validateAttachment(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+
+    const items = accepted.map<PendingAttachment>((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+      status: 'uploading',
+    }));
+    setPending((prev) => [...prev, ...items]);
+
+    items.forEach((item) => {
+      onUpload(item.file)
+        .then((attachment) => updatePending(item.id, { status: 'ready', attachment }))
+        .catch((error) => {
+          console.error('Error subiendo adjunto', error);
+          updatePending(item.id, { status: 'error' });
+          toast.error(`No se pudo subir ${item.file.name}`);
+        });
+    });
+  };
+
+  const suggestions = useMemo(() => {
+    if (!mentionQuery) return [];
+    const query = mentionQuery.query.toLocaleLowerCase();
+    return participants
+      .filter((participant) => participant.userName.toLocaleLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [participants, mentionQuery]);
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = MENTION_QUERY.exec(value.slice(0, caret));
+    setMentionQuery(match ? { start: caret - match[2].length - 1, query: match[2] } : null);
+    setHighlighted(0);
+  };
+
+  /**
+   * Replaces `value[start, end)` with `insert` and moves the caret right after it.
+   */
+  const replaceRange = (start: number, end: number, insert: string) => {
+    const next = text.slice(0, start) + insert + text.slice(end);
+    const caret = start + insert.length;
+    setText(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const pickMention = (participant: ChatMention) => {
+    if (!mentionQuery) return;
+    const caret = textareaRef.current?.selectionStart ?? text.length;
+    replaceRange(mentionQuery.start, caret, `@${participant.userName} `);
+  };
+
+  const insertEmoji = (emoji: string) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? text.length;
+    const end = el?.selectionEnd ?? text.length;
+    replaceRange(start, end, emoji);
+  };
+
+  const submit = () => {
+    if (!canSend) return;
+    const message = text.trim();
+    onSend(message, findMentions(message, participants), readyAttachments);
+    onStopTyping?.();
+    pending.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+    setPending([]);
+    setText('');
+    setMentionQuery(null);
+  };
+
+  const hasFiles = (e: DragEvent<HTMLElement>) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUpload || !hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLFormElement>) => {
+    // Ignorar el paso entre elementos hijos del formulario
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUpload || !hasFiles(e)) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!onUpload || files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((prev) => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className="relative border-t border-border p-4"
+    >
+      {isDragging && (
+        <div className="pointer-events-none absolute inset-1 z-10 flex items-center justify-center rounded-md border-2 border-dashed border-primary bg-background/90 text-sm font-medium text-primary">
+          Suelta los archivos para adjuntarlos
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Mencionar a"
+          className="absolute inset-x-4 bottom-full mb-1 overflow-hidden rounded-md border border-border bg-popover shadow-md"
+        >
+          {suggestions.map((participant, index) => (
+            <li
+              key={participant.userId}
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                'flex cursor-pointer items-center gap-2 px-3 py-2 text-sm',
+                index === highlighted ? 'bg-muted' : 'hover:bg-muted/60'
+              )}
+              onMouseDown={(e) => {
+                // Evitar que el textarea pierda el foco antes de insertar
+                e.preventDefault();
+                pickMention(participant);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarFallback className="text-xs">{participant.userName.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="truncate">{participant.userName}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {replyTo && (
+        <div className="mb-2 flex items-center gap-2 rounded-md border-l-2 border-primary bg-muted px-2 py-1 text-xs">
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-foreground">Respondiendo a {replyTo.userName ?? 'Usuario'}</p>
+            <p className="truncate text-muted-foreground">{getMessagePreview(replyTo)}</p>
+          </div>
+          {onCancelReply && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={onCancelReply}
+              aria-label="Cancelar respuesta"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <ul className="mb-2 flex flex-wrap gap-2" aria-label="Archivos adjuntos">
+          {pending.map((item) => (
+            <li
+              key={item.id}
+              className={cn(
+                'relative flex h-14 max-w-40 items-center gap-2 rounded-md border bg-muted pr-6 text-xs',
+                item.previewUrl ? 'w-14 pr-0' : 'pl-2',
+                item.status === 'error' ? 'border-destructive' : 'border-border'
+              )}
+              title={item.file.name}
+            >
+              {item.previewUrl ? (
+                <img src={item.previewUrl} alt={item.file.name} className="h-full w-full rounded-md object-cover" />
+              ) : (
+                <>
+                  <FileText className="h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{item.file.name}</span>
+                    <span className="text-muted-foreground">{formatFileSize(item.file.size)}</span>
+                  </span>
+                </>
+              )}
+              {item.status !== 'ready' && (
+                <span className="absolute inset-0 flex items-center justify-center rounded-md bg-background/60">
+                  {item.status === 'uploading' ? (
+                    <Loader2 className="h-4 w-4 animate-spin" aria-label="Subiendo" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-destructive" aria-label="Error al subir" />
+                  )}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => removePending(item.id)}
+                className="absolute -right-1.5 -top-1.5 flex h-5 w-5 items-center justify-center rounded-full border border-border bg-background hover:bg-muted"
+                aria-label={`Quitar ${item.file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-end gap-2">
+        {onUpload && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                // Permitir elegir el mismo archivo otra vez
+                e.target.value = '';
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={disabled || pending.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              onClick={() => fileInputRef.current?.click()}
+              aria-label="Adjuntar archivo"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <EmojiPicker onSelect={insertEmoji} disabled={disabled} />
+        <Textarea
+          ref={textareaRef}
+          value={text}
+          rows={1}
+          disabled={disabled}
+          onChange={(e) => {
+            setText(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+            if (e.target.value.trim()) onTyping?.();
+            else onStopTyping?.();
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onClick={(e) => updateMentionQuery(text, e.currentTarget.selectionStart)}
+          onBlur={() => {
+            setMentionQuery(null);
+            onStopTyping?.();
+          }}
+          placeholder="Escribe un mensaje... (@ para mencionar)"
+          aria-label="Mensaje"
+          className="max-h-32 min-h-10 flex-1 resize-none"
+        />
+        <Button type="submit" size="icon" disabled={!canSend} aria-label="Enviar mensaje">
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CHAT_EXPORT_LABELS, ChatExportFormat, exportChatTranscript } from '@/lib/chat-export';
+import type { Meeting } from '@/store/meetingStore';
+
+const EXPORT_FORMATS: ChatExportFormat[] = ['txt', 'md', 'json'];
+
+interface ChatExportMenuProps {
+  meeting: Meeting;
+  /** User exporting; private messages between other participants are left out. */
+  userId: string;
+  /** Icon-only trigger, for the chat panel header. */
+  compact?: boolean;
+}
+
+/**
+ * Menu to download the meeting chat transcript in the chosen format.
+ */
+export function ChatExportMenu({ meeting, userId, compact }: ChatExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ChatExportFormat) => {
+    setIsExporting(true);
+    try {
+      const count = await exportChatTranscript(meeting, userId, exportFormat);
+      toast.success(count === 1 ? 'Chat exportado (1 mensaje)' : `Chat exportado (${count} mensajes)`);
+    } catch (error) {
+      console.error('Error exportando chat', error);
+      toast.error('No se pudo exportar el chat');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const icon = isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="icon" disabled={isExporting} aria-label="Exportar chat">
+            {icon}
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled={isExporting}>
+            {icon}
+            <span className="ml-2">Exportar chat</span>
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Descargar transcripción</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map((exportFormat) => (
+          <DropdownMenuItem key={exportFormat} onSelect={() => handleExport(exportFormat)}>
+            {CHAT_EXPORT_LABELS[exportFormat]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
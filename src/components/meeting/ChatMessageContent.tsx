@@ -0,0 +1,121 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { ChatInlineNode, parseChatMarkdown } from '@/lib/chat-markdown';
+import { splitHighlights } from '@/lib/chat-search';
+import type { ChatMessage } from '@/services/chat';
+
+interface ChatMessageContentProps {
+  message: ChatMessage;
+  /** Local user; mentions of them are highlighted more strongly. */
+  currentUserId: string;
+  /** Own messages sit on the primary color, so links and code need other contrast. */
+  isOwn: boolean;
+  /** Search text to highlight. */
+  highlight?: string;
+}
+
+/**
+ * Renders a chat message with the supported markdown subset, links and mentions.
+ * @remarks Everything is rendered as React text nodes; message content never reaches the DOM as HTML.
+ */
+export function ChatMessageContent({ message, currentUserId, isOwn, highlight }: ChatMessageContentProps) {
+  const blocks = useMemo(
+    () => parseChatMarkdown(message.message, message.mentions),
+    [message.message, message.mentions]
+  );
+
+  const renderText = (text: string): ReactNode =>
+    highlight
+      ? splitHighlights(text, highlight).map((part, index) =>
+          part.match ? (
+            <mark key={index} className="rounded-sm bg-yellow-300 text-yellow-950">
+              {part.text}
+            </mark>
+          ) : (
+            <Fragment key={index}>{part.text}</Fragment>
+          )
+        )
+      : text;
+
+  const renderInline = (nodes: ChatInlineNode[]): ReactNode =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'bold':
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case 'code':
+          return (
+            <code
+              key={index}
+              className={cn('rounded px-1 font-mono text-xs', isOwn ? 'bg-primary-foreground/20' : 'bg-background')}
+            >
+              {renderText(node.text)}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="break-all underline underline-offset-2"
+            >
+              {renderText(node.text)}
+            </a>
+          );
+        case 'mention':
+          return (
+            <span
+              key={index}
+              className={cn(
+                'rounded px-0.5 font-medium',
+                node.userId === currentUserId
+                  ? 'bg-amber-300 text-amber-950'
+                  : isOwn
+                    ? 'bg-primary-foreground/20'
+                    : 'bg-primary/15 text-primary'
+              )}
+            >
+              {node.text}
+            </span>
+          );
+        default:
+          return <Fragment key={index}>{renderText(node.text)}</Fragment>;
+      }
+    });
+
+  return (
+    <div className="space-y-1 text-sm">
+      {blocks.map((block, index) => {
+        if (block.type === 'codeBlock') {
+          return (
+            <pre
+              key={index}
+              className={cn(
+                'overflow-x-auto rounded p-2 font-mono text-xs',
+                isOwn ? 'bg-primary-foreground/20' : 'bg-background'
+              )}
+            >
+              {renderText(block.text)}
+            </pre>
+          );
+        }
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={cn('space-y-0.5 pl-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+        return (
+          <p key={index} className="whitespace-pre-wrap break-words">
+            {renderInline(block.children)}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
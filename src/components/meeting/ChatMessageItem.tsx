@@ -0,0 +1,329 @@
+import { KeyboardEvent, useState } from 'react';
+import {
+  AlertCircle,
+  Check,
+  Clock,
+  Lock,
+  MessageSquareReply,
+  MoreHorizontal,
+  Pencil,
+  Reply,
+  SmilePlus,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { getMessagePreview } from '@/lib/chat-markdown';
+import type { ChatMessage, MessageDeliveryStatus } from '@/services/chat';
+import { ChatAttachmentList } from './ChatAttachmentList';
+import { ChatMessageContent } from './ChatMessageContent';
+
+/** Emojis offered in the per-message reaction picker. */
+const MESSAGE_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+interface ChatMessageItemProps {
+  message: ChatMessage;
+  currentUserId: string;
+  /** Authors can edit their own messages. */
+  canEdit: boolean;
+  /** Authors can delete their own messages; hosts can delete any. */
+  canDelete: boolean;
+  onEdit: (text: string) => void;
+  onDelete: () => void;
+  onToggleReaction: (emoji: string) => void;
+  /** Message this one replies to; `null` when it is not loaded. Omitted for top-level messages. */
+  parent?: ChatMessage | null;
+  /** Replies in this message's thread (top-level messages only). */
+  replyCount?: number;
+  onReply: () => void;
+  /** Opens the thread this message belongs to; omitted inside the thread view. */
+  onOpenThread?: () => void;
+  /** Delivery state of an own message sent in this session. */
+  deliveryStatus?: MessageDeliveryStatus;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+  /** Search text to highlight in the content. */
+  highlight?: string;
+  /** Marks the search result currently selected. */
+  isCurrentResult?: boolean;
+}
+
+/**
+ * Single chat message with inline editing, a reaction picker and reaction counters.
+ */
+export function ChatMessageItem({
+  message,
+  currentUserId,
+  canEdit,
+  canDelete,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  parent,
+  replyCount = 0,
+  onReply,
+  onOpenThread,
+  deliveryStatus,
+  onRetry,
+  onDiscard,
+  highlight,
+  isCurrentResult,
+}: ChatMessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const isOwn = message.userId === currentUserId;
+  const isDeleted = Boolean(message.deletedAt);
+  const mentionsMe = !isOwn && Boolean(message.mentions?.some((m) => m.userId === currentUserId));
+  const isPrivate = Boolean(message.recipientId);
+  // Hasta que el servidor lo confirme no se puede editar, borrar ni reaccionar
+  const isPending = deliveryStatus === 'sending' || deliveryStatus === 'failed';
+  const reactions = Object.entries(message.reactions ?? {}).filter(([, users]) => users.length > 0);
+
+  const startEditing = () => {
+    setDraft(message.message);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const text = draft.trim();
+    setIsEditing(false);
+    if (text && text !== message.message) onEdit(text);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div data-message-id={message.messageId} className={cn('group flex flex-col', isOwn ? 'items-end' : 'items-start')}>
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        {message.userName ?? 'Usuario'}
+        {isPrivate && (
+          <span className="flex items-center gap-0.5 font-medium text-violet-600 dark:text-violet-400">
+            <Lock className="h-3 w-3" aria-hidden="true" />
+            {isOwn ? `Privado para ${message.recipientName ?? 'participante'}` : 'Privado'}
+          </span>
+        )}
+      </span>
+
+      <div className={cn('mt-1 flex max-w-full items-start gap-1', isOwn && 'flex-row-reverse')}>
+        {isEditing ? (
+          <div className="w-64 max-w-full space-y-1">
+            <Textarea
+              autoFocus
+              value={draft}
+              rows={2}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              aria-label="Editar mensaje"
+              className="min-h-16 resize-none text-sm"
+            />
+            <div className="flex justify-end gap-1">
+              <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                Cancelar
+              </Button>
+              <Button size="sm" onClick={saveEdit} disabled={!draft.trim()}>
+                Guardar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              'min-w-0 rounded-lg px-3 py-2',
+              isDeleted
+                ? 'border border-dashed border-border text-muted-foreground'
+                : isOwn
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-foreground',
+              isPending && 'opacity-70',
+              isPrivate && !isDeleted && 'ring-2 ring-violet-400/70',
+              mentionsMe && !isDeleted && 'ring-2 ring-amber-400',
+              isCurrentResult && 'ring-2 ring-yellow-400 ring-offset-2 ring-offset-card'
+            )}
+          >
+            {parent !== undefined && (
+              <button
+                type="button"
+                onClick={onOpenThread}
+                disabled={!onOpenThread}
+                className={cn(
+                  'mb-1 block w-full border-l-2 pl-2 text-left text-xs',
+                  isOwn ? 'border-primary-foreground/60 text-primary-foreground/80' : 'border-primary/60 text-muted-foreground'
+                )}
+              >
+                <span className="font-medium">{parent?.userName ?? 'Usuario'}</span>
+                <span className="block truncate">{getMessagePreview(parent)}</span>
+              </button>
+            )}
+            {isDeleted ? (
+              <p className="text-sm italic">Mensaje eliminado</p>
+            ) : (
+              <>
+                {message.message && (
+                  <ChatMessageContent
+                    message={message}
+                    currentUserId={currentUserId}
+                    isOwn={isOwn}
+                    highlight={highlight}
+                  />
+                )}
+                {message.attachments?.length > 0 && (
+                  <ChatAttachmentList attachments={message.attachments} isOwn={isOwn} />
+                )}
+              </>
+            )}
+            {message.editedAt && !isDeleted && (
+              <span className={cn('text-[10px]', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+                (editado)
+              </span>
+            )}
+          </div>
+        )}
+
+        {!isDeleted && !isEditing && !isPending && (
+          <div className="flex shrink-0 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onReply} aria-label="Responder">
+              <Reply className="h-4 w-4" />
+            </Button>
+            <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Reaccionar al mensaje">
+                  <SmilePlus className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent side="top" className="flex w-auto gap-1 p-1">
+                {MESSAGE_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    className="flex h-8 w-8 items-center justify-center rounded text-lg hover:bg-muted"
+                    onClick={() => {
+                      onToggleReaction(emoji);
+                      setIsPickerOpen(false);
+                    }}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </PopoverContent>
+            </Popover>
+
+            {(canEdit || canDelete) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Opciones del mensaje">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+                  {canEdit && (
+                    <DropdownMenuItem onSelect={startEditing}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Editar
+                    </DropdownMenuItem>
+                  )}
+                  {canDelete && (
+                    <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={onDelete}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Eliminar
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isOwn && deliveryStatus && (
+        <span
+          className={cn(
+            'mt-0.5 flex items-center gap-1 text-[10px]',
+            deliveryStatus === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+          )}
+        >
+          {deliveryStatus === 'sending' && (
+            <>
+              <Clock className="h-3 w-3" aria-hidden="true" />
+              Enviando…
+            </>
+          )}
+          {deliveryStatus === 'sent' && (
+            <>
+              <Check className="h-3 w-3" aria-hidden="true" />
+              Enviado
+            </>
+          )}
+          {deliveryStatus === 'failed' && (
+            <>
+              <AlertCircle className="h-3 w-3" aria-hidden="true" />
+              No se envió
+              {onRetry && (
+                <button type="button" onClick={onRetry} className="font-medium underline-offset-2 hover:underline">
+                  Reintentar
+                </button>
+              )}
+              {onDiscard && (
+                <button type="button" onClick={onDiscard} className="font-medium underline-offset-2 hover:underline">
+                  Descartar
+                </button>
+              )}
+            </>
+          )}
+        </span>
+      )}
+
+      {replyCount > 0 && onOpenThread && (
+        <button
+          type="button"
+          onClick={onOpenThread}
+          className="mt-1 flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+        >
+          <MessageSquareReply className="h-3 w-3" aria-hidden="true" />
+          {replyCount === 1 ? '1 respuesta' : `${replyCount} respuestas`}
+        </button>
+      )}
+
+      {reactions.length > 0 && !isDeleted && (
+        <div className={cn('mt-1 flex flex-wrap gap-1', isOwn && 'justify-end')}>
+          {reactions.map(([emoji, users]) => {
+            const reacted = users.includes(currentUserId);
+            return (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => onToggleReaction(emoji)}
+                aria-pressed={reacted}
+                aria-label={`${emoji} ${users.length}`}
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs',
+                  reacted ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-muted'
+                )}
+              >
+                <span>{emoji}</span>
+                <span>{users.length}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
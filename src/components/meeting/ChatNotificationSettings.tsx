@@ -0,0 +1,75 @@
+import { Bell, BellOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useChatNotifications } from '@/hooks/use-chat-notifications';
+import { isDesktopNotificationSupported } from '@/lib/desktop-notifications';
+import type { ChatNotifyLevel } from '@/store/notificationStore';
+
+interface ChatNotificationSettingsProps {
+  userId: string;
+}
+
+/**
+ * Chat panel menu to choose which messages notify and to opt into desktop notifications.
+ */
+export function ChatNotificationSettings({ userId }: ChatNotificationSettingsProps) {
+  const { preferences, setPreferences, enableDesktopNotifications } = useChatNotifications(userId);
+  const isSupported = isDesktopNotificationSupported();
+
+  const handleDesktopChange = async (checked: boolean) => {
+    if (!checked) {
+      setPreferences({ desktop: false });
+      return;
+    }
+    const granted = await enableDesktopNotifications();
+    if (!granted) {
+      toast.error('El navegador bloqueó las notificaciones', {
+        description: 'Permítelas en la configuración del sitio para activarlas.',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Notificaciones del chat">
+          {preferences.notifyOn === 'mentions' ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Avisarme de</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={preferences.notifyOn}
+          onValueChange={(value) => setPreferences({ notifyOn: value as ChatNotifyLevel })}
+        >
+          <DropdownMenuRadioItem value="all">Todos los mensajes</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="mentions">Solo menciones y privados</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={preferences.desktop}
+          disabled={!isSupported}
+          onCheckedChange={handleDesktopChange}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Notificaciones del escritorio
+        </DropdownMenuCheckboxItem>
+        <p className="px-2 pb-1.5 text-xs text-muted-foreground">
+          {isSupported
+            ? 'Se muestran cuando esta pestaña está en segundo plano.'
+            : 'Este navegador no admite notificaciones.'}
+        </p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
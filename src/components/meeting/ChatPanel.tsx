@@ -0,0 +1,425 @@
+import { Fragment, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, Loader2, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { findMentions } from '@/lib/chat-markdown';
+import { canSeeMessage } from '@/lib/chat-visibility';
+import { getConversationId, ROOM_CONVERSATION_ID } from '@/hooks/use-chat';
+import { useChatSearch } from '@/hooks/use-chat-search';
+import type { TypingUser } from '@/hooks/use-typing';
+import { formatTypingNames } from '@/lib/presence';
+import type {
+  ChatAttachment,
+  ChatConnectionState,
+  ChatMention,
+  ChatMessage,
+  ChatSearchQuery,
+  MessageDeliveryStatus,
+  SendMessageOptions,
+} from '@/services/chat';
+import type { Meeting } from '@/store/meetingStore';
+import { ChatComposer } from './ChatComposer';
+import { ChatExportMenu } from './ChatExportMenu';
+import { ChatNotificationSettings } from './ChatNotificationSettings';
+import { ChatMessageItem } from './ChatMessageItem';
+import { ChatRecipientSelect } from './ChatRecipientSelect';
+import { ChatSearchBar } from './ChatSearchBar';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  /** Replies grouped by thread root (from `useChat`). */
+  threads: Record<string, ChatMessage[]>;
+  connectionState: ChatConnectionState;
+  isLoadingHistory: boolean;
+  /** Whether older messages can still be fetched by scrolling up. */
+  hasMoreHistory: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  /** Backend search over the whole history (`useChat().searchMessages`). */
+  onSearchHistory: (query: ChatSearchQuery) => Promise<ChatMessage[]>;
+  currentUserId: string;
+  /** Users that can be mentioned (the local user excluded). */
+  participants: ChatMention[];
+  /** Hosts and co-hosts can delete anyone's messages. */
+  canDeleteAny: boolean;
+  /** Meeting whose transcript can be exported; `null` hides the export menu. */
+  exportMeeting: Meeting | null;
+  /** Conversation on screen: `ROOM_CONVERSATION_ID` or the other participant's user id. */
+  conversationId: string;
+  unreadCounts: Record<string, number>;
+  /** First message of the conversation that arrived unread; a "new messages" divider goes above it. */
+  firstUnreadMessageId?: string;
+  onConversationChange: (conversationId: string) => void;
+  /** Whether private conversations are available (`useChat().canSendPrivate`). */
+  canMessagePrivately: boolean;
+  /** Delivery state of own messages (from `useChat`). */
+  deliveryStatus: Record<string, MessageDeliveryStatus>;
+  onRetry: (messageId: string) => void;
+  onDiscard: (messageId: string) => void;
+  onSend: (message: string, options: SendMessageOptions) => void;
+  /** Participants typing, by conversation (from `useTyping`). */
+  typingByConversation: Record<string, TypingUser[]>;
+  onTyping: (recipientId?: string) => void;
+  onStopTyping: () => void;
+  onUpload: (file: File) => Promise<ChatAttachment>;
+  onEdit: (messageId: string, message: string, mentions: ChatMention[]) => void;
+  onDelete: (messageId: string) => void;
+  onToggleReaction: (messageId: string, emoji: string) => void;
+  onClose: () => void;
+}
+
+/** Distance in pixels from an edge of the list that counts as being at that edge. */
+const SCROLL_EDGE_THRESHOLD = 48;
+
+/**
+ * Meeting chat side panel: message list, thread view and composer.
+ * @remarks The main list keeps every message in order; replies quote their parent, and the thread
+ * view shows a root message with all of its replies. Scrolling to the top loads older history while
+ * keeping the messages on screen in place; new messages keep the list pinned to the bottom unless
+ * the user scrolled up. While searching, the list shows only the results of the conversation.
+ */
+export function ChatPanel({
+  messages: allMessages,
+  threads,
+  connectionState,
+  isLoadingHistory,
+  hasMoreHistory,
+  isLoadingOlder,
+  onLoadOlder,
+  onSearchHistory,
+  currentUserId,
+  participants,
+  canDeleteAny,
+  exportMeeting,
+  conversationId,
+  unreadCounts,
+  firstUnreadMessageId,
+  onConversationChange,
+  canMessagePrivately,
+  deliveryStatus,
+  onRetry,
+  onDiscard,
+  onSend,
+  typingByConversation,
+  onTyping,
+  onStopTyping,
+  onUpload,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onClose,
+}: ChatPanelProps) {
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const scrollAreaRef = useRef<HTMLDivElement | null>(null);
+  const isAtBottomRef = useRef(true);
+  /** Message at the top of the list before loading older ones, and its offset from the viewport. */
+  const scrollAnchorRef = useRef<{ messageId: string; offset: number } | null>(null);
+
+  // Nunca mostrar mensajes privados ajenos, aunque lleguen a la lista
+  const messages = useMemo(
+    () => allMessages.filter((m) => canSeeMessage(m, currentUserId)),
+    [allMessages, currentUserId]
+  );
+  const messagesById = useMemo(() => new Map(messages.map((m) => [m.messageId, m])), [messages]);
+  const conversationMessages = useMemo(
+    () => messages.filter((m) => getConversationId(m, currentUserId) === conversationId),
+    [messages, currentUserId, conversationId]
+  );
+  const threadRoot = openThreadId ? messagesById.get(openThreadId) : undefined;
+  const visibleMessages = useMemo(
+    () => (threadRoot ? [threadRoot, ...(threads[threadRoot.messageId] ?? [])] : conversationMessages),
+    [threadRoot, threads, conversationMessages]
+  );
+
+  // Conversaciones privadas: participantes en la sala y quienes ya escribieron aunque se hayan ido
+  const privatePartners = useMemo(() => {
+    const partners = [...participants];
+    messages.forEach((m) => {
+      const partnerId = getConversationId(m, currentUserId);
+      if (partnerId === ROOM_CONVERSATION_ID || partners.some((p) => p.userId === partnerId)) return;
+      const userName = m.userId === partnerId ? m.userName : m.recipientName;
+      partners.push({ userId: partnerId, userName: userName ?? 'Participante' });
+    });
+    return partners;
+  }, [participants, messages, currentUserId]);
+  const recipient =
+    conversationId === ROOM_CONVERSATION_ID ? undefined : privatePartners.find((p) => p.userId === conversationId);
+
+  const search = useChatSearch({
+    messages: conversationMessages,
+    conversationId,
+    userId: currentUserId,
+    hasMoreHistory,
+    searchHistory: onSearchHistory,
+  });
+  const searchMode = isSearchOpen && search.isActive && !threadRoot;
+  const listMessages = searchMode ? search.results : visibleMessages;
+
+  // Autores para el filtro: participantes y quien haya escrito en esta conversación
+  const searchAuthors = useMemo(() => {
+    const authors = new Map(participants.map((p) => [p.userId, p]));
+    conversationMessages.forEach((m) => {
+      if (!authors.has(m.userId)) authors.set(m.userId, { userId: m.userId, userName: m.userName ?? 'Usuario' });
+    });
+    return Array.from(authors.values());
+  }, [participants, conversationMessages]);
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    search.reset();
+    isAtBottomRef.current = true;
+  };
+
+  const handleConversationChange = (nextId: string) => {
+    setOpenThreadId(null);
+    setReplyTo(null);
+    onConversationChange(nextId);
+  };
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') ?? null;
+
+  const getMessageOffset = (viewport: HTMLDivElement, messageId: string) => {
+    const element = viewport.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(messageId)}"]`);
+    return element ? element.getBoundingClientRect().top - viewport.getBoundingClientRect().top : null;
+  };
+
+  const handleScroll = () => {
+    const viewport = getViewport();
+    if (!viewport) return;
+    isAtBottomRef.current =
+      viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < SCROLL_EDGE_THRESHOLD;
+
+    if (viewport.scrollTop <= SCROLL_EDGE_THRESHOLD) loadOlder();
+  };
+
+  const canLoadOlder = !threadRoot && !searchMode && hasMoreHistory && !isLoadingOlder && !isLoadingHistory;
+
+  const loadOlder = () => {
+    const viewport = getViewport();
+    const first = visibleMessages[0];
+    if (!canLoadOlder || !viewport) return;
+
+    const offset = first ? getMessageOffset(viewport, first.messageId) : null;
+    scrollAnchorRef.current = offset === null ? null : { messageId: first.messageId, offset };
+    onLoadOlder();
+  };
+
+  // Al cambiar de conversación o de hilo se empieza por el final
+  useEffect(() => {
+    isAtBottomRef.current = true;
+  }, [conversationId, openThreadId]);
+
+  // Tras pintar: mantener en su sitio lo que se estaba leyendo o seguir pegado al final
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (!viewport || searchMode) return;
+
+    const anchor = scrollAnchorRef.current;
+    if (anchor) {
+      const offset = getMessageOffset(viewport, anchor.messageId);
+      if (offset !== null) viewport.scrollTop += offset - anchor.offset;
+      if (!isLoadingOlder) scrollAnchorRef.current = null;
+      return;
+    }
+
+    if (isAtBottomRef.current) viewport.scrollTop = viewport.scrollHeight;
+  }, [listMessages, isLoadingOlder, searchMode]);
+
+  // Llevar a la vista el resultado seleccionado
+  useEffect(() => {
+    if (!searchMode || !search.activeResultId) return;
+    getViewport()
+      ?.querySelector(`[data-message-id="${CSS.escape(search.activeResultId)}"]`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [searchMode, search.activeResultId]);
+
+  // Un hilo cuya raíz desaparece (p.ej. al recargar el historial) se cierra
+  useEffect(() => {
+    if (openThreadId && !threadRoot) setOpenThreadId(null);
+  }, [openThreadId, threadRoot]);
+
+  /**
+   * Root of the thread a message belongs to: the message itself when it is not a reply.
+   */
+  const findThreadRootId = (message: ChatMessage): string => {
+    if (!message.parentMessageId) return message.messageId;
+    const rootId = Object.keys(threads).find((id) => threads[id].some((m) => m.messageId === message.messageId));
+    return rootId ?? message.parentMessageId;
+  };
+
+  const handleSend = (text: string, mentions: ChatMention[], attachments: ChatAttachment[]) => {
+    // Dentro de un hilo se responde a la raíz salvo que se eligiera otro mensaje
+    const parentMessageId = replyTo?.messageId ?? threadRoot?.messageId;
+    onSend(text, { mentions, parentMessageId, recipient, attachments });
+    setReplyTo(null);
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-50 flex h-full w-full max-w-sm flex-col border-l border-border bg-card shadow-lg lg:static lg:h-auto lg:w-80">
+      <div className="flex items-center justify-between border-b border-border p-4">
+        <div className="flex items-center gap-2">
+          {threadRoot && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setOpenThreadId(null)}
+              aria-label="Volver al chat"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          )}
+          <h2 className="font-semibold text-foreground">{threadRoot ? 'Hilo' : 'Chat'}</h2>
+          {connectionState === 'connected' ? (
+            <span className="flex h-2 w-2 rounded-full bg-green-500" />
+          ) : connectionState === 'connecting' ? (
+            <Loader2 className="h-3 w-3 animate-spin text-yellow-500" />
+          ) : (
+            <span className="flex h-2 w-2 rounded-full bg-red-500" />
+          )}
+        </div>
+        <div className="flex items-center">
+          {!threadRoot && (
+            <Button
+              variant={isSearchOpen ? 'secondary' : 'ghost'}
+              size="icon"
+              onClick={() => (isSearchOpen ? closeSearch() : setIsSearchOpen(true))}
+              aria-label="Buscar en el chat"
+              aria-pressed={isSearchOpen}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+          )}
+          <ChatNotificationSettings userId={currentUserId} />
+          {exportMeeting && <ChatExportMenu meeting={exportMeeting} userId={currentUserId} compact />}
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Cerrar chat">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!threadRoot && canMessagePrivately && (
+        <ChatRecipientSelect
+          participants={privatePartners}
+          value={conversationId}
+          unreadCounts={unreadCounts}
+          onChange={handleConversationChange}
+        />
+      )}
+
+      {isSearchOpen && !threadRoot && (
+        <ChatSearchBar
+          filters={search.filters}
+          onChange={search.setFilters}
+          authors={searchAuthors}
+          resultCount={search.results.length}
+          activeIndex={search.activeIndex}
+          isSearchingHistory={search.isSearchingHistory}
+          onOlder={search.selectOlder}
+          onNewer={search.selectNewer}
+          onClose={closeSearch}
+        />
+      )}
+
+      <ScrollArea ref={scrollAreaRef} className="flex-1 p-4" onScrollCapture={handleScroll}>
+        {isLoadingOlder ? (
+          <div className="flex justify-center pb-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-label="Cargando mensajes anteriores" />
+          </div>
+        ) : canLoadOlder ? (
+          // Respaldo cuando la lista es tan corta que no hay scroll
+          <div className="flex justify-center pb-4">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={loadOlder}>
+              Cargar mensajes anteriores
+            </Button>
+          </div>
+        ) : (
+          !threadRoot &&
+          !searchMode &&
+          !isLoadingHistory &&
+          visibleMessages.length > 0 && (
+            <p className="pb-4 text-center text-xs text-muted-foreground">Inicio de la conversación</p>
+          )
+        )}
+        {isLoadingHistory ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : listMessages.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {searchMode
+              ? 'Ningún mensaje coincide con la búsqueda'
+              : recipient
+                ? `Aún no hay mensajes privados con ${recipient.userName}`
+                : 'No hay mensajes aún'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {listMessages.map((msg) => {
+              const isOwn = msg.userId === currentUserId;
+              const isThreadRoot = msg.messageId === threadRoot?.messageId;
+              const showUnreadDivider = !threadRoot && !searchMode && msg.messageId === firstUnreadMessageId;
+              return (
+                <Fragment key={msg.messageId}>
+                  {showUnreadDivider && (
+                    <div className="flex items-center gap-2 text-xs font-medium text-destructive" role="separator">
+                      <span className="h-px flex-1 bg-destructive/40" />
+                      Mensajes nuevos
+                      <span className="h-px flex-1 bg-destructive/40" />
+                    </div>
+                  )}
+                  <ChatMessageItem
+                    message={msg}
+                    currentUserId={currentUserId}
+                    canEdit={isOwn}
+                    canDelete={isOwn || canDeleteAny}
+                    onEdit={(text) => onEdit(msg.messageId, text, findMentions(text, participants))}
+                    onDelete={() => onDelete(msg.messageId)}
+                    onToggleReaction={(emoji) => onToggleReaction(msg.messageId, emoji)}
+                    // En el hilo la cita sobra cuando se responde directamente a la raíz
+                    parent={
+                      msg.parentMessageId && !(threadRoot && msg.parentMessageId === threadRoot.messageId)
+                        ? messagesById.get(msg.parentMessageId) ?? null
+                        : undefined
+                    }
+                    replyCount={threads[msg.messageId]?.length ?? 0}
+                    onReply={() => setReplyTo(isThreadRoot ? null : msg)}
+                    onOpenThread={threadRoot ? undefined : () => setOpenThreadId(findThreadRootId(msg))}
+                    deliveryStatus={deliveryStatus[msg.messageId]}
+                    onRetry={() => onRetry(msg.messageId)}
+                    onDiscard={() => onDiscard(msg.messageId)}
+                    highlight={searchMode ? search.filters.text : undefined}
+                    isCurrentResult={searchMode && msg.messageId === search.activeResultId}
+                  />
+                </Fragment>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+
+      {connectionState !== 'connected' && (
+        <p className="border-t border-border bg-muted px-4 py-2 text-xs text-muted-foreground">
+          Sin conexión: los mensajes se enviarán al reconectar.
+        </p>
+      )}
+
+      <p className="h-5 truncate px-4 text-xs italic text-muted-foreground" aria-live="polite">
+        {formatTypingNames((typingByConversation[conversationId] ?? []).map((u) => u.userName))}
+      </p>
+
+      <ChatComposer
+        participants={participants}
+        replyTo={replyTo ?? threadRoot ?? null}
+        onCancelReply={replyTo ? () => setReplyTo(null) : undefined}
+        onUpload={onUpload}
+        onSend={handleSend}
+        onTyping={() => onTyping(recipient?.userId)}
+        onStopTyping={onStopTyping}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1,67 @@
+import { Lock, Users } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ROOM_CONVERSATION_ID } from '@/hooks/use-chat';
+import type { ChatMention } from '@/services/chat';
+
+interface ChatRecipientSelectProps {
+  /** Participants available for a private conversation. */
+  participants: ChatMention[];
+  /** Selected conversation: `ROOM_CONVERSATION_ID` or a participant's user id. */
+  value: string;
+  unreadCounts: Record<string, number>;
+  onChange: (conversationId: string) => void;
+}
+
+function UnreadBadge({ count }: { count?: number }) {
+  if (!count) return null;
+  return (
+    <span className="ml-auto flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs font-semibold text-destructive-foreground">
+      {count}
+    </span>
+  );
+}
+
+/**
+ * Picks who the chat talks to: everyone in the room or a single participant in private.
+ */
+export function ChatRecipientSelect({ participants, value, unreadCounts, onChange }: ChatRecipientSelectProps) {
+  const otherUnread = Object.entries(unreadCounts).reduce(
+    (total, [conversationId, count]) => (conversationId === value ? total : total + count),
+    0
+  );
+
+  return (
+    <div className="flex items-center gap-2 border-b border-border px-4 py-2">
+      <span className="text-xs text-muted-foreground">Para:</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 flex-1 text-sm" aria-label="Destinatario del chat">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ROOM_CONVERSATION_ID}>
+            <span className="flex w-full items-center gap-2">
+              <Users className="h-4 w-4" aria-hidden="true" />
+              Todos
+              <UnreadBadge count={unreadCounts[ROOM_CONVERSATION_ID]} />
+            </span>
+          </SelectItem>
+          {participants.map((participant) => (
+            <SelectItem key={participant.userId} value={participant.userId}>
+              <span className="flex w-full items-center gap-2">
+                <Lock className="h-4 w-4 text-violet-500" aria-hidden="true" />
+                {participant.userName}
+                <UnreadBadge count={unreadCounts[participant.userId]} />
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {otherUnread > 0 && (
+        <span
+          className="h-2 w-2 rounded-full bg-destructive"
+          title={`${otherUnread} mensajes sin leer en otras conversaciones`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { ChevronDown, ChevronUp, Loader2, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ChatSearchFilters } from '@/lib/chat-search';
+import type { ChatMention } from '@/services/chat';
+
+/** Select value standing for "any author". */
+const ANY_AUTHOR = 'any';
+
+interface ChatSearchBarProps {
+  filters: ChatSearchFilters;
+  onChange: (filters: ChatSearchFilters) => void;
+  /** Users who can be picked in the author filter. */
+  authors: ChatMention[];
+  resultCount: number;
+  /** Index of the selected result, or -1 when there are none. */
+  activeIndex: number;
+  /** The backend search for older messages is still running. */
+  isSearchingHistory: boolean;
+  /** Moves to the previous (older) result. */
+  onOlder: () => void;
+  /** Moves to the next (newer) result. */
+  onNewer: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Chat search box with author and date range filters and navigation between results.
+ * @remarks Results go from oldest to newest and the newest is selected first, as in the list; Enter
+ * moves to the older result and Shift+Enter to the newer one.
+ */
+export function ChatSearchBar({
+  filters,
+  onChange,
+  authors,
+  resultCount,
+  activeIndex,
+  isSearchingHistory,
+  onOlder,
+  onNewer,
+  onClose,
+}: ChatSearchBarProps) {
+  const update = (patch: Partial<ChatSearchFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="space-y-2 border-b border-border px-4 py-2">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={filters.text}
+            onChange={(e) => update({ text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                if (e.shiftKey) onNewer();
+                else onOlder();
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                onClose();
+              }
+            }}
+            placeholder="Buscar en el chat"
+            aria-label="Buscar en el chat"
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onOlder}
+          disabled={resultCount === 0}
+          aria-label="Resultado anterior"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onNewer}
+          disabled={resultCount === 0}
+          aria-label="Resultado siguiente"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Cerrar búsqueda">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={filters.authorId ?? ANY_AUTHOR}
+          onValueChange={(value) => update({ authorId: value === ANY_AUTHOR ? null : value })}
+        >
+          <SelectTrigger className="h-8 flex-1 text-xs" aria-label="Autor">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_AUTHOR}>Cualquier autor</SelectItem>
+            {authors.map((author) => (
+              <SelectItem key={author.userId} value={author.userId}>
+                {author.userName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => update({ from: e.target.value })}
+          aria-label="Desde"
+          className="h-8 w-[7.5rem] px-2 text-xs"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => update({ to: e.target.value })}
+          aria-label="Hasta"
+          className="h-8 w-[7.5rem] px-2 text-xs"
+        />
+      </div>
+
+      <p className="flex items-center gap-1 text-xs text-muted-foreground" aria-live="polite">
+        {resultCount === 0 ? 'Sin resultados' : `${activeIndex + 1} de ${resultCount}`}
+        {isSearchingHistory && (
+          <>
+            <Loader2 className="h-3 w-3 animate-spin" aria-hidden="true" />
+            Buscando en mensajes anteriores…
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DevicePreferences } from '@/store/deviceStore';
+
+/** Select value standing for "browser default" (Radix Select does not accept empty values). */
+const DEFAULT_DEVICE = 'system-default';
+
+interface DeviceSelectorsProps {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+  supportsOutputSelection: boolean;
+  preferences: DevicePreferences;
+  /** Called with `undefined` when the browser default is chosen. */
+  onChange: (key: keyof DevicePreferences, deviceId: string | undefined) => void;
+}
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  fallbackName: string;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  disabled?: boolean;
+  onValueChange: (deviceId: string | undefined) => void;
+}
+
+function DeviceSelect({ id, label, fallbackName, devices, value, disabled, onValueChange }: DeviceSelectProps) {
+  // Sin permisos los ids llegan vacíos; el alias "default" de Chrome ya lo cubre la opción por defecto
+  const options = devices.filter((device) => device.deviceId && device.deviceId !== 'default');
+  const selected = value && options.some((device) => device.deviceId === value) ? value : DEFAULT_DEVICE;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={selected}
+        disabled={disabled}
+        onValueChange={(next) => onValueChange(next === DEFAULT_DEVICE ? undefined : next)}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>Predeterminado del sistema</SelectItem>
+          {options.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${fallbackName} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Camera, microphone and speaker pickers bound to the user's device preferences.
+ */
+export function DeviceSelectors({
+  audioInputs,
+  videoInputs,
+  audioOutputs,
+  supportsOutputSelection,
+  preferences,
+  onChange,
+}: DeviceSelectorsProps) {
+  return (
+    <div className="space-y-4">
+      <DeviceSelect
+        id="device-camera"
+        label="Cámara"
+        fallbackName="Cámara"
+        devices={videoInputs}
+        value={preferences.videoInputId}
+        onValueChange={(deviceId) => onChange('videoInputId', deviceId)}
+      />
+      <DeviceSelect
+        id="device-microphone"
+        label="Micrófono"
+        fallbackName="Micrófono"
+        devices={audioInputs}
+        value={preferences.audioInputId}
+        onValueChange={(deviceId) => onChange('audioInputId', deviceId)}
+      />
+      <DeviceSelect
+        id="device-speaker"
+        label="Altavoz"
+        fallbackName="Altavoz"
+        devices={audioOutputs}
+        value={preferences.audioOutputId}
+        disabled={!supportsOutputSelection}
+        onValueChange={(deviceId) => onChange('audioOutputId', deviceId)}
+      />
+      {!supportsOutputSelection && (
+        <p className="text-xs text-muted-foreground">
+          Tu navegador no permite elegir el altavoz; se usará el predeterminado del sistema.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { ComponentProps } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DeviceSelectors } from './DeviceSelectors';
+
+interface DeviceSettingsDialogProps extends ComponentProps<typeof DeviceSelectors> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * In-call settings dialog to switch camera, microphone and speaker.
+ */
+export function DeviceSettingsDialog({ open, onOpenChange, ...selectorProps }: DeviceSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Configuración de audio y video</DialogTitle>
+          <DialogDescription>Los cambios se aplican de inmediato y se recuerdan para tus próximas reuniones.</DialogDescription>
+        </DialogHeader>
+        <DeviceSelectors {...selectorProps} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Smile } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+const EMOJIS = [
+  '😀', '😄', '😂', '🙂', '😉', '😊', '😍', '🤔',
+  '😅', '😎', '😢', '😮', '😴', '🙄', '🤝', '🙏',
+  '👍', '👎', '👏', '🙌', '👋', '💪', '✌️', '👀',
+  '❤️', '🔥', '🎉', '✅', '❌', '⭐', '💡', '📌',
+];
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Compact emoji grid for the chat input.
+ */
+export function EmojiPicker({ onSelect, disabled }: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" disabled={disabled} aria-label="Insertar emoji">
+          <Smile className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-auto p-2">
+        <div className="grid grid-cols-8 gap-1">
+          {EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className="flex h-8 w-8 items-center justify-center rounded text-lg hover:bg-muted"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,42 @@
+import type { ReactionPayload } from '@/services/chat';
+
+interface FloatingReactionsProps {
+  reactions: ReactionPayload[];
+}
+
+/**
+ * Horizontal offset (10-80%) derived from the reaction id, so simultaneous reactions spread out.
+ */
+function getOffset(reactionId: string): number {
+  let hash = 0;
+  for (let i = 0; i < reactionId.length; i++) {
+    hash = (hash * 31 + reactionId.charCodeAt(i)) % 1000;
+  }
+  return 10 + (hash % 70);
+}
+
+/**
+ * Overlay where reactions float up over the video area; it never captures pointer events.
+ */
+export function FloatingReactions({ reactions }: FloatingReactionsProps) {
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-live="polite">
+      {reactions.map((reaction) => (
+        <div
+          key={reaction.reactionId}
+          className="absolute bottom-4 flex animate-float-up flex-col items-center"
+          style={{ left: `${getOffset(reaction.reactionId)}%` }}
+        >
+          <span className="text-4xl" role="img" aria-label={`Reacción de ${reaction.userName ?? 'un participante'}`}>
+            {reaction.emoji}
+          </span>
+          {reaction.userName && (
+            <span className="mt-1 max-w-32 truncate rounded-full bg-background/80 px-2 py-0.5 text-xs text-foreground">
+              {reaction.userName}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { MeetingSettings } from '@/store/meetingStore';
+
+interface HostControlsMenuProps {
+  settings: MeetingSettings;
+  onSettingsChange: (patch: Partial<MeetingSettings>) => void;
+}
+
+/**
+ * Header menu with meeting-wide permissions that only the host can change.
+ */
+export function HostControlsMenu({ settings, onSettingsChange }: HostControlsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Controles del anfitrión">
+          <ShieldCheck className="h-5 w-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Controles del anfitrión</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={settings.screenSharing !== false}
+          onCheckedChange={(checked) => onSettingsChange({ screenSharing: checked })}
+        >
+          Participantes pueden compartir pantalla
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={Boolean(settings.locked)}
+          onCheckedChange={(checked) => onSettingsChange({ locked: checked })}
+        >
+          Bloquear reunión a nuevos participantes
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
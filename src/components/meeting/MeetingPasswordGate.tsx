@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApiError } from '@/lib/api-client';
+import { verifyMeetingPassword } from '@/services/meetings';
+
+/** Failed attempts allowed before the form locks. */
+const FREE_ATTEMPTS = 3;
+/** First lockout duration; doubles with each further failure. */
+const BASE_LOCKOUT_MS = 10_000;
+const MAX_LOCKOUT_MS = 5 * 60_000;
+
+interface MeetingPasswordGateProps {
+  meetingId: string;
+  meetingName: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+function isApiError(error: unknown): error is ApiError {
+  return typeof error === 'object' && error !== null && 'status' in error && 'message' in error;
+}
+
+/**
+ * Password prompt shown before media and chat start for meetings with `requirePassword`.
+ * @remarks Throttles retries client-side with an exponential lockout and honors backend `429`.
+ */
+export function MeetingPasswordGate({ meetingId, meetingName, onVerified, onCancel }: MeetingPasswordGateProps) {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const remainingLockMs = lockedUntil ? Math.max(0, lockedUntil - now) : 0;
+  const isLocked = remainingLockMs > 0;
+
+  // Cuenta regresiva mientras el formulario está bloqueado
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        setError('');
+      }
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockFor = (ms: number) => {
+    setNow(Date.now());
+    setLockedUntil(Date.now() + Math.min(ms, MAX_LOCKOUT_MS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isLocked || isVerifying) return;
+
+    setIsVerifying(true);
+    setError('');
+
+    try {
+      const valid = await verifyMeetingPassword(meetingId, password);
+      if (valid) {
+        onVerified();
+        return;
+      }
+
+      const attempts = failedAttempts + 1;
+      setFailedAttempts(attempts);
+      setPassword('');
+
+      if (attempts >= FREE_ATTEMPTS) {
+        lockFor(BASE_LOCKOUT_MS * 2 ** (attempts - FREE_ATTEMPTS));
+        setError('Demasiados intentos fallidos. Espera antes de volver a intentarlo.');
+      } else {
+        setError(`Contraseña incorrecta. Te quedan ${FREE_ATTEMPTS - attempts} intentos.`);
+      }
+    } catch (err) {
+      if (isApiError(err) && err.status === 429) {
+        lockFor(BASE_LOCKOUT_MS * 3);
+        setError('Demasiados intentos. Espera antes de volver a intentarlo.');
+      } else {
+        console.error('Error verificando contraseña de reunión:', err);
+        setError('No pudimos verificar la contraseña. Intenta nuevamente.');
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-background px-4">
+      <form onSubmit={handleSubmit} className="card-elevated w-full max-w-sm space-y-4 p-6" noValidate>
+        <div className="text-center">
+          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Lock className="h-6 w-6 text-primary" aria-hidden="true" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-foreground">{meetingName || 'Reunión'}</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Esta reunión está protegida con contraseña.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="meeting-password">Contraseña</Label>
+          <Input
+            id="meeting-password"
+            type="password"
+            autoComplete="off"
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-2"
+            disabled={isLocked}
+            aria-invalid={Boolean(error)}
+            aria-describedby={error ? 'meeting-password-error' : undefined}
+          />
+          {error && (
+            <p id="meeting-password-error" role="alert" className="mt-1 text-sm text-destructive">
+              {error}
+              {isLocked && ` (${Math.ceil(remainingLockMs / 1000)} s)`}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+            Salir
+          </Button>
+          <Button type="submit" className="flex-1" disabled={!password || isLocked || isVerifying}>
+            {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+            Entrar
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
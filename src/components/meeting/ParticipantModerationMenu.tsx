@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Crown, MicOff, MoreVertical, UserX, VideoOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ASSIGNABLE_ROLES, ROLE_LABELS } from '@/lib/meeting-roles';
+import type { ModerationAction } from '@/services/chat';
+import type { MeetingRole } from '@/store/meetingStore';
+
+interface ParticipantModerationMenuProps {
+  participantName: string;
+  role: MeetingRole;
+  isAudioOn: boolean;
+  isVideoOn: boolean;
+  /** Shows mute/camera/remove actions. */
+  canModerate: boolean;
+  /** Shows role assignment and host transfer. */
+  canManageRoles: boolean;
+  onAction: (action: ModerationAction) => void;
+  onRoleChange: (role: Exclude<MeetingRole, 'host'>) => void;
+  onTransferHost: () => void;
+}
+
+/**
+ * Per-participant host actions; removal asks for confirmation first.
+ */
+export function ParticipantModerationMenu({
+  participantName,
+  role,
+  isAudioOn,
+  isVideoOn,
+  canModerate,
+  canManageRoles,
+  onAction,
+  onRoleChange,
+  onTransferHost,
+}: ParticipantModerationMenuProps) {
+  const [isConfirmingRemove, setIsConfirmingRemove] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Moderar a ${participantName}`}>
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {canModerate && (
+            <>
+              <DropdownMenuItem disabled={!isAudioOn} onSelect={() => onAction('mute')}>
+                <MicOff className="mr-2 h-4 w-4" />
+                Silenciar
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!isVideoOn} onSelect={() => onAction('disableCamera')}>
+                <VideoOff className="mr-2 h-4 w-4" />
+                Apagar cámara
+              </DropdownMenuItem>
+            </>
+          )}
+
+          {canManageRoles && role !== 'host' && (
+            <>
+              {canModerate && <DropdownMenuSeparator />}
+              <DropdownMenuLabel>Rol</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={role}
+                onValueChange={(value) => onRoleChange(value as Exclude<MeetingRole, 'host'>)}
+              >
+                {ASSIGNABLE_ROLES.map((option) => (
+                  <DropdownMenuRadioItem key={option} value={option}>
+                    {ROLE_LABELS[option]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuItem onSelect={onTransferHost}>
+                <Crown className="mr-2 h-4 w-4" />
+                Transferir rol de anfitrión
+              </DropdownMenuItem>
+            </>
+          )}
+
+          {canModerate && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => setIsConfirmingRemove(true)}
+              >
+                <UserX className="mr-2 h-4 w-4" />
+                Expulsar de la reunión
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={isConfirmingRemove} onOpenChange={setIsConfirmingRemove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Expulsar a {participantName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Saldrá de la llamada y no podrá volver a unirse a esta reunión.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => onAction('remove')}
+            >
+              Expulsar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { Hand, Loader2, MicOff, Monitor } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import type { NetworkQuality } from '@/lib/peer-stats';
+import { SignalBars } from './SignalBars';
+
+/**
+ * Participant rendered by the meeting gallery (local user or remote peer).
+ */
+export interface GalleryParticipant {
+  /** Peer id for remote participants, `local` for the current user. */
+  id: string;
+  /** Account id announced by the peer; unknown until its identity arrives. */
+  userId?: string;
+  name: string;
+  avatarUrl?: string;
+  stream: MediaStream | null;
+  isVideoOn: boolean;
+  isAudioOn: boolean;
+  isLocal?: boolean;
+  /** True while the participant's audio level is above the speaking threshold. */
+  isSpeaking?: boolean;
+  /** True while the participant publishes a screen capture. */
+  isScreenSharing?: boolean;
+  /** True while the connection to this participant is being recovered. */
+  isReconnecting?: boolean;
+  /** Connection quality for remote participants; omitted for the local user. */
+  networkQuality?: NetworkQuality | null;
+  /** 1-based position in the raised-hand queue; omitted when the hand is down. */
+  handPosition?: number;
+}
+
+interface ParticipantTileProps {
+  participant: GalleryParticipant;
+  className?: string;
+}
+
+function hasLiveVideo(stream: MediaStream | null): boolean {
+  return Boolean(stream?.getVideoTracks().some((track) => track.readyState === 'live'));
+}
+
+/**
+ * Video tile with name overlay and an avatar fallback when the camera is off.
+ * @remarks The `<video>` is always muted; remote audio is played by dedicated audio elements.
+ */
+export function ParticipantTile({ participant, className }: ParticipantTileProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const {
+    name,
+    avatarUrl,
+    stream,
+    isVideoOn,
+    isAudioOn,
+    isLocal,
+    isSpeaking,
+    isScreenSharing,
+    isReconnecting,
+    networkQuality,
+    handPosition,
+  } = participant;
+  const showVideo = isVideoOn && hasLiveVideo(stream);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    if (el.srcObject !== stream) {
+      el.srcObject = stream;
+    }
+    el.play().catch(() => undefined);
+  }, [stream, showVideo]);
+
+  return (
+    <div
+      className={cn(
+        'relative flex h-full min-h-0 w-full items-center justify-center overflow-hidden rounded-xl bg-black ring-offset-2 ring-offset-background transition-shadow',
+        isSpeaking && 'ring-2 ring-green-500',
+        className
+      )}
+    >
+      {showVideo ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className="h-full w-full object-contain"
+        />
+      ) : (
+        <Avatar className="h-16 w-16 sm:h-24 sm:w-24">
+          <AvatarImage src={avatarUrl} alt={name} />
+          <AvatarFallback className="bg-primary text-2xl text-primary-foreground sm:text-3xl">
+            {name.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      )}
+
+      {isReconnecting && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 text-white">
+          <Loader2 className="h-6 w-6 animate-spin" aria-hidden="true" />
+          <span className="text-xs font-medium sm:text-sm">Reconectando...</span>
+        </div>
+      )}
+
+      {(isScreenSharing || handPosition) && (
+        <div className="absolute left-2 top-2 flex flex-col items-start gap-1">
+          {isScreenSharing && (
+            <div className="flex items-center gap-1 rounded-lg bg-primary px-2 py-1 text-xs font-medium text-primary-foreground">
+              <Monitor className="h-3 w-3" aria-hidden="true" />
+              Presentando
+            </div>
+          )}
+          {handPosition && (
+            <div
+              className="flex items-center gap-1 rounded-lg bg-amber-400 px-2 py-1 text-xs font-semibold text-amber-950"
+              aria-label={`Mano levantada, turno ${handPosition}`}
+            >
+              <Hand className="h-3 w-3" aria-hidden="true" />
+              {handPosition}
+            </div>
+          )}
+        </div>
+      )}
+
+      {networkQuality !== undefined && (
+        <div className="absolute right-2 top-2 rounded-md bg-background/80 px-1.5 py-1 backdrop-blur-sm">
+          <SignalBars quality={networkQuality} />
+        </div>
+      )}
+
+      <div className="absolute bottom-2 left-2 flex max-w-[calc(100%-1rem)] items-center gap-2 rounded-lg bg-background/80 px-2 py-1 backdrop-blur-sm">
+        <span className="truncate text-xs font-medium text-foreground sm:text-sm">
+          {name}
+          {isLocal && ' (Tú)'}
+        </span>
+        {!isAudioOn && <MicOff className="h-4 w-4 shrink-0 text-destructive" aria-label="Micrófono apagado" />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Mic, MicOff, Video, VideoOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { createAudioLevelMeter } from '@/lib/audio-level';
+import { DevicePreferences, useDeviceStore } from '@/store/deviceStore';
+import { DeviceSelectors } from './DeviceSelectors';
+import { ParticipantTile } from './ParticipantTile';
+
+/** RMS level that fills the meter; speech rarely goes above it. */
+const METER_FULL_SCALE = 0.25;
+
+interface PreJoinScreenProps {
+  meetingName: string;
+  userId: string;
+  userName: string;
+  avatarUrl?: string;
+  initialAudio: boolean;
+  initialVideo: boolean;
+  /** Viewers join without camera or microphone, so no preview is opened. */
+  receiveOnly?: boolean;
+  onJoin: (media: { audio: boolean; video: boolean }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-join screen with camera preview, microphone meter and device pickers.
+ * @remarks The preview stream is released before `onJoin`, so the call can open the devices again
+ * with the saved preferences.
+ */
+export function PreJoinScreen({
+  meetingName,
+  userId,
+  userName,
+  avatarUrl,
+  initialAudio,
+  initialVideo,
+  receiveOnly = false,
+  onJoin,
+  onCancel,
+}: PreJoinScreenProps) {
+  const [isAudioOn, setIsAudioOn] = useState(initialAudio);
+  const [isVideoOn, setIsVideoOn] = useState(initialVideo);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [micLevel, setMicLevel] = useState(0);
+
+  const devices = useMediaDevices();
+  const preferences = useDeviceStore((state) => state.getPreferences(userId));
+  const setPreferences = useDeviceStore((state) => state.setPreferences);
+  const { audioInputId, videoInputId } = preferences;
+  const { refresh: refreshDevices } = devices;
+
+  // Abrir la vista previa con los dispositivos preferidos
+  useEffect(() => {
+    if (receiveOnly) return;
+
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    const openPreview = async () => {
+      try {
+        acquired = await navigator.mediaDevices.getUserMedia({
+          audio: audioInputId ? { deviceId: { ideal: audioInputId } } : true,
+          video: videoInputId ? { deviceId: { ideal: videoInputId } } : true,
+        });
+        if (cancelled) {
+          acquired.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        setMediaError(null);
+        setPreviewStream(acquired);
+        refreshDevices();
+      } catch (err) {
+        console.error('[PreJoinScreen] Error abriendo vista previa:', err);
+        if (!cancelled) {
+          setMediaError('No se pudo acceder a la cámara o micrófono. Puedes unirte igualmente.');
+        }
+      }
+    };
+
+    openPreview();
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach((track) => track.stop());
+    };
+  }, [audioInputId, videoInputId, refreshDevices, receiveOnly]);
+
+  // Aplicar los interruptores a la vista previa
+  useEffect(() => {
+    previewStream?.getAudioTracks().forEach((track) => {
+      track.enabled = isAudioOn;
+    });
+    previewStream?.getVideoTracks().forEach((track) => {
+      track.enabled = isVideoOn;
+    });
+  }, [previewStream, isAudioOn, isVideoOn]);
+
+  // Medidor de nivel del micrófono
+  useEffect(() => {
+    if (!previewStream || !isAudioOn || previewStream.getAudioTracks().length === 0) {
+      setMicLevel(0);
+      return;
+    }
+    if (typeof AudioContext === 'undefined') return;
+
+    const context = new AudioContext();
+    const meter = createAudioLevelMeter(context, previewStream);
+    const timer = window.setInterval(() => {
+      setMicLevel(Math.min(100, Math.round((meter.getLevel() / METER_FULL_SCALE) * 100)));
+    }, 100);
+
+    return () => {
+      window.clearInterval(timer);
+      meter.disconnect();
+      context.close().catch(() => undefined);
+    };
+  }, [previewStream, isAudioOn]);
+
+  const handleDeviceChange = (key: keyof DevicePreferences, deviceId: string | undefined) => {
+    setPreferences(userId, { [key]: deviceId });
+  };
+
+  const handleJoin = () => {
+    previewStream?.getTracks().forEach((track) => track.stop());
+    onJoin(receiveOnly ? { audio: false, video: false } : { audio: isAudioOn, video: isVideoOn });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4 py-8">
+      <div className="grid w-full max-w-4xl gap-6 md:grid-cols-[3fr_2fr]">
+        <div className="space-y-3">
+          <div className="aspect-video">
+            <ParticipantTile
+              participant={{
+                id: 'local',
+                name: userName,
+                avatarUrl,
+                stream: previewStream,
+                isVideoOn: isVideoOn && !receiveOnly,
+                isAudioOn: isAudioOn && !receiveOnly,
+                isLocal: true,
+              }}
+            />
+          </div>
+
+          {receiveOnly ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Te unirás como espectador: podrás ver y escuchar, pero no enviar audio ni video.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center justify-center gap-3">
+                <Button
+                  variant={isAudioOn ? 'secondary' : 'destructive'}
+                  size="icon"
+                  className="h-12 w-12 rounded-full"
+                  onClick={() => setIsAudioOn(!isAudioOn)}
+                  aria-label={isAudioOn ? 'Desactivar micrófono' : 'Activar micrófono'}
+                >
+                  {isAudioOn ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+                </Button>
+                <Button
+                  variant={isVideoOn ? 'secondary' : 'destructive'}
+                  size="icon"
+                  className="h-12 w-12 rounded-full"
+                  onClick={() => setIsVideoOn(!isVideoOn)}
+                  aria-label={isVideoOn ? 'Desactivar cámara' : 'Activar cámara'}
+                >
+                  {isVideoOn ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Prueba tu micrófono hablando</p>
+                <Progress value={micLevel} aria-label="Nivel del micrófono" className="h-2" />
+              </div>
+            </>
+          )}
+
+          {mediaError && (
+            <p role="alert" className="text-sm text-destructive">
+              {mediaError}
+            </p>
+          )}
+        </div>
+
+        <div className="card-elevated flex flex-col gap-6 p-6">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">{meetingName || 'Reunión'}</h2>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Te unirás como <span className="font-medium text-foreground">{userName}</span>
+            </p>
+          </div>
+
+          <DeviceSelectors
+            audioInputs={devices.audioInputs}
+            videoInputs={devices.videoInputs}
+            audioOutputs={devices.audioOutputs}
+            supportsOutputSelection={devices.supportsOutputSelection}
+            preferences={preferences}
+            onChange={handleDeviceChange}
+          />
+
+          <div className="mt-auto flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={onCancel}>
+              Salir
+            </Button>
+            <Button className="flex-1" onClick={handleJoin}>
+              Unirse ahora
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
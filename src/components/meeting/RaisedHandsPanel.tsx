@@ -0,0 +1,63 @@
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Hand } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { RaisedHand } from '@/services/chat';
+
+interface RaisedHandsPanelProps {
+  hands: RaisedHand[];
+  /** Resolves a display name when the queue entry has none. */
+  getName: (userId: string) => string;
+  onLower: (userId: string) => void;
+  onLowerAll: () => void;
+}
+
+/**
+ * Host-side queue of raised hands, in the order they were raised.
+ */
+export function RaisedHandsPanel({ hands, getName, onLower, onLowerAll }: RaisedHandsPanelProps) {
+  if (hands.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="raised-hands-title" className="space-y-3 rounded-lg border border-amber-400/40 bg-amber-400/10 p-3">
+      <div className="flex items-center justify-between">
+        <h3 id="raised-hands-title" className="text-sm font-semibold text-foreground">
+          Manos levantadas ({hands.length})
+        </h3>
+        <Button size="sm" variant="outline" onClick={onLowerAll}>
+          Bajar todas
+        </Button>
+      </div>
+
+      <ol className="space-y-2">
+        {hands.map((hand, index) => {
+          const displayName = hand.userName || getName(hand.userId);
+          return (
+            <li key={hand.userId} className="flex items-center gap-3">
+              <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-amber-400 text-xs font-semibold text-amber-950">
+                {index + 1}
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{displayName}</p>
+                <p className="text-xs text-muted-foreground">
+                  Hace {formatDistanceToNow(parseISO(hand.raisedAt), { locale: es })}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onLower(hand.userId)}
+                aria-label={`Bajar la mano de ${displayName}`}
+              >
+                <Hand className="mr-1 h-4 w-4" aria-hidden="true" />
+                Bajar
+              </Button>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ReactionEmoji } from '@/services/chat';
+
+const REACTION_OPTIONS: Array<{ emoji: ReactionEmoji; label: string }> = [
+  { emoji: '👍', label: 'Me gusta' },
+  { emoji: '👏', label: 'Aplausos' },
+  { emoji: '😂', label: 'Risa' },
+  { emoji: '❤️', label: 'Me encanta' },
+  { emoji: '🎉', label: 'Celebración' },
+  { emoji: '😮', label: 'Sorpresa' },
+];
+
+interface ReactionPickerProps {
+  onReact: (emoji: ReactionEmoji) => void;
+}
+
+/**
+ * Control-bar button that opens the emoji reaction picker.
+ */
+export function ReactionPicker({ onReact }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={open ? 'default' : 'secondary'}
+          size="lg"
+          className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
+          aria-label="Enviar reacción"
+        >
+          <SmilePlus className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="flex w-auto gap-1 rounded-full p-1.5">
+        {REACTION_OPTIONS.map(({ emoji, label }) => (
+          <Button
+            key={emoji}
+            variant="ghost"
+            size="icon"
+            className="h-10 w-10 rounded-full text-xl"
+            onClick={() => {
+              onReact(emoji);
+              setOpen(false);
+            }}
+            aria-label={label}
+          >
+            {emoji}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
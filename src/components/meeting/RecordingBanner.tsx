@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { differenceInSeconds, parseISO } from 'date-fns';
+import { Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ActiveRecording } from '@/hooks/use-recording';
+
+interface RecordingBannerProps {
+  recording: ActiveRecording;
+  /** Stops the recording; only offered to the user who is recording. */
+  onStop?: () => void;
+}
+
+function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Notice shown to everyone in the room while the meeting is being recorded.
+ */
+export function RecordingBanner({ recording, onStop }: RecordingBannerProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const elapsed = Math.max(0, differenceInSeconds(now, parseISO(recording.startedAt)));
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-center gap-3 border-b border-destructive/30 bg-destructive/10 px-4 py-2 text-sm text-foreground"
+    >
+      <span className="h-2.5 w-2.5 animate-pulse rounded-full bg-destructive" aria-hidden="true" />
+      <span>
+        {recording.isLocal
+          ? 'Estás grabando esta reunión'
+          : `${recording.userName || 'El anfitrión'} está grabando esta reunión`}
+      </span>
+      <span className="font-mono text-xs text-muted-foreground">{formatElapsed(elapsed)}</span>
+      {onStop && (
+        <Button size="sm" variant="destructive" className="h-7" onClick={onStop}>
+          <Square className="mr-1 h-3 w-3 fill-current" />
+          Detener
+        </Button>
+      )}
+    </div>
+  );
+}
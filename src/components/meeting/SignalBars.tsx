@@ -0,0 +1,43 @@
+import type { NetworkQuality } from '@/lib/peer-stats';
+import { cn } from '@/lib/utils';
+
+const QUALITY_LABELS: Record<NetworkQuality, string> = {
+  1: 'mala',
+  2: 'regular',
+  3: 'buena',
+  4: 'excelente',
+};
+
+const BAR_HEIGHTS = ['h-1', 'h-2', 'h-3', 'h-4'];
+
+interface SignalBarsProps {
+  quality: NetworkQuality | null;
+  className?: string;
+}
+
+/**
+ * Four-bar connection quality indicator; renders grey bars while quality is unknown.
+ */
+export function SignalBars({ quality, className }: SignalBarsProps) {
+  const activeColor =
+    quality === null ? '' : quality >= 3 ? 'bg-green-500' : quality === 2 ? 'bg-yellow-500' : 'bg-destructive';
+
+  return (
+    <div
+      role="img"
+      aria-label={quality === null ? 'Calidad de conexión desconocida' : `Calidad de conexión ${QUALITY_LABELS[quality]}`}
+      className={cn('flex h-4 items-end gap-0.5', className)}
+    >
+      {BAR_HEIGHTS.map((height, index) => (
+        <span
+          key={height}
+          className={cn(
+            'w-1 rounded-sm',
+            height,
+            quality !== null && index < quality ? activeColor : 'bg-muted-foreground/40'
+          )}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { GalleryParticipant, ParticipantTile } from './ParticipantTile';
+
+interface SpeakerViewProps {
+  participants: GalleryParticipant[];
+  /** Participant id to feature; a remote screen share takes precedence. */
+  activeSpeakerId: string | null;
+}
+
+/**
+ * Layout that features the active speaker and lists everyone else in a filmstrip.
+ */
+export function SpeakerView({ participants, activeSpeakerId }: SpeakerViewProps) {
+  // Una presentación remota tiene prioridad sobre el orador activo
+  const featured =
+    participants.find((p) => p.isScreenSharing && !p.isLocal) ??
+    participants.find((p) => p.id === activeSpeakerId) ??
+    participants.find((p) => !p.isLocal) ??
+    participants[0];
+
+  if (!featured) {
+    return null;
+  }
+
+  const others = participants.filter((p) => p.id !== featured.id);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-3">
+      <div className="min-h-0 flex-1">
+        <ParticipantTile participant={featured} />
+      </div>
+
+      {others.length > 0 && (
+        <ul aria-label="Otros participantes" className="flex h-24 shrink-0 gap-2 overflow-x-auto sm:h-32">
+          {others.map((participant) => (
+            <li key={participant.id} className="aspect-video h-full shrink-0">
+              <ParticipantTile participant={participant} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
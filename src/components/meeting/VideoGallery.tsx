@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { GalleryParticipant, ParticipantTile } from './ParticipantTile';
+
+/** Maximum tiles per page (4x4 grid); mobile screens fall back to 2x2. */
+const DESKTOP_PAGE_SIZE = 16;
+const MOBILE_PAGE_SIZE = 4;
+
+interface VideoGalleryProps {
+  participants: GalleryParticipant[];
+}
+
+/**
+ * Returns grid classes so tiles fill a 1, 2, 4, 9 or 16 slot layout.
+ */
+function getGridClasses(count: number): string {
+  if (count <= 1) return 'grid-cols-1 grid-rows-1';
+  if (count === 2) return 'grid-cols-1 grid-rows-2 sm:grid-cols-2 sm:grid-rows-1';
+  if (count <= 4) return 'grid-cols-2 grid-rows-2';
+  if (count <= 9) return 'grid-cols-3 grid-rows-3';
+  return 'grid-cols-4 grid-rows-4';
+}
+
+/**
+ * Responsive gallery that auto-sizes the grid to the participant count and pages overflow.
+ */
+export function VideoGallery({ participants }: VideoGalleryProps) {
+  const isMobile = useIsMobile();
+  const pageSize = isMobile ? MOBILE_PAGE_SIZE : DESKTOP_PAGE_SIZE;
+  const pageCount = Math.max(1, Math.ceil(participants.length / pageSize));
+  const [page, setPage] = useState(0);
+
+  // Si salen participantes, no quedarse en una página vacía
+  useEffect(() => {
+    if (page > pageCount - 1) {
+      setPage(pageCount - 1);
+    }
+  }, [page, pageCount]);
+
+  const visible = participants.slice(page * pageSize, page * pageSize + pageSize);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-3">
+      <div className={`grid min-h-0 flex-1 gap-2 sm:gap-4 ${getGridClasses(visible.length)}`}>
+        {visible.map((participant) => (
+          <ParticipantTile key={participant.id} participant={participant} />
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <nav aria-label="Páginas de participantes" className="flex items-center justify-center gap-3">
+          <Button
+            variant="secondary"
+            size="icon"
+            onClick={() => setPage((prev) => Math.max(0, prev - 1))}
+            disabled={page === 0}
+            aria-label="Página anterior"
+          >
+            <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Página {page + 1} de {pageCount}
+          </span>
+          <Button
+            variant="secondary"
+            size="icon"
+            onClick={() => setPage((prev) => Math.min(pageCount - 1, prev + 1))}
+            disabled={page >= pageCount - 1}
+            aria-label="Página siguiente"
+          >
+            <ChevronRight className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Check, UserCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import type { LobbyEntry } from '@/services/chat';
+
+interface WaitingRoomPanelProps {
+  queue: LobbyEntry[];
+  onAdmit: (userId: string) => void;
+  onDeny: (userId: string) => void;
+  onAdmitAll: () => void;
+}
+
+/**
+ * Host-side list of users waiting in the lobby with admit/deny actions.
+ */
+export function WaitingRoomPanel({ queue, onAdmit, onDeny, onAdmitAll }: WaitingRoomPanelProps) {
+  if (queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="waiting-room-title" className="space-y-3 rounded-lg border border-primary/30 bg-primary/5 p-3">
+      <div className="flex items-center justify-between">
+        <h3 id="waiting-room-title" className="text-sm font-semibold text-foreground">
+          Sala de espera ({queue.length})
+        </h3>
+        <Button size="sm" variant="outline" onClick={onAdmitAll}>
+          <UserCheck className="mr-1 h-4 w-4" aria-hidden="true" />
+          Admitir a todos
+        </Button>
+      </div>
+
+      <ul className="space-y-2">
+        {queue.map((entry) => {
+          const displayName = entry.userName || `Usuario ${entry.userId.slice(0, 6)}`;
+          return (
+            <li key={entry.userId} className="flex items-center gap-3">
+              <Avatar className="h-8 w-8">
+                <AvatarFallback className="bg-muted text-xs text-foreground">
+                  {displayName.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{displayName}</p>
+                <p className="text-xs text-muted-foreground">
+                  Esperando {formatDistanceToNow(parseISO(entry.requestedAt), { locale: es })}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-green-600 hover:bg-green-500/10 hover:text-green-600"
+                onClick={() => onAdmit(entry.userId)}
+                aria-label={`Admitir a ${displayName}`}
+              >
+                <Check className="h-4 w-4" aria-hidden="true" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                onClick={() => onDeny(entry.userId)}
+                aria-label={`Rechazar a ${displayName}`}
+              >
+                <X className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioLevelMeter, createAudioLevelMeter } from '@/lib/audio-level';
+
+/** RMS level above which a participant counts as speaking. */
+const SPEAKING_THRESHOLD = 0.02;
+/** Time a participant stays "speaking" after the level drops, to avoid flicker. */
+const SPEAKING_HOLD_MS = 400;
+/** Time a new loudest speaker must hold before becoming the dominant speaker. */
+const DOMINANT_SWITCH_MS = 1000;
+const POLL_INTERVAL_MS = 100;
+
+interface MeterEntry {
+  stream: MediaStream;
+  meter: AudioLevelMeter;
+  lastActiveAt: number;
+  level: number;
+}
+
+interface UseActiveSpeakerReturn {
+  /** Participants currently speaking, keyed by the ids of the input map. */
+  speaking: Record<string, boolean>;
+  /** Debounced loudest speaker; keeps the last one while everybody is silent. */
+  dominantSpeaker: string | null;
+}
+
+/**
+ * Tracks who is speaking across a set of streams using WebAudio analysers.
+ * @param streams Streams keyed by participant id (peer id or `local`); memoize it to avoid
+ * rebuilding analysers on every render.
+ * @returns Per-participant speaking flags and the debounced dominant speaker.
+ * @remarks Polls levels every 100 ms and only updates state when the result changes.
+ */
+export function useActiveSpeaker(streams: Record<string, MediaStream | null>): UseActiveSpeakerReturn {
+  const [speaking, setSpeaking] = useState<Record<string, boolean>>({});
+  const [dominantSpeaker, setDominantSpeaker] = useState<string | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const metersRef = useRef<Map<string, MeterEntry>>(new Map());
+
+  // Sincronizar analizadores con los streams recibidos
+  useEffect(() => {
+    if (typeof AudioContext === 'undefined') return;
+
+    const context = contextRef.current ?? new AudioContext();
+    contextRef.current = context;
+    const meters = metersRef.current;
+
+    Object.entries(streams).forEach(([id, stream]) => {
+      const existing = meters.get(id);
+      if (existing?.stream === stream) return;
+
+      existing?.meter.disconnect();
+      meters.delete(id);
+
+      if (!stream || stream.getAudioTracks().length === 0) return;
+      try {
+        meters.set(id, { stream, meter: createAudioLevelMeter(context, stream), lastActiveAt: 0, level: 0 });
+      } catch (err) {
+        console.warn('[useActiveSpeaker] No se pudo analizar el audio de', id, err);
+      }
+    });
+
+    meters.forEach((entry, id) => {
+      if (!streams[id]) {
+        entry.meter.disconnect();
+        meters.delete(id);
+      }
+    });
+  }, [streams]);
+
+  // Muestrear niveles y derivar quién habla
+  useEffect(() => {
+    let candidate: string | null = null;
+    let candidateSince = 0;
+    let lastSpeakingKey = '';
+
+    const timer = window.setInterval(() => {
+      const context = contextRef.current;
+      if (!context) return;
+      if (context.state === 'suspended') {
+        context.resume().catch(() => undefined);
+      }
+
+      const now = Date.now();
+      const next: Record<string, boolean> = {};
+      let loudest: string | null = null;
+      let loudestLevel = 0;
+
+      metersRef.current.forEach((entry, id) => {
+        entry.level = entry.meter.getLevel();
+        if (entry.level > SPEAKING_THRESHOLD) {
+          entry.lastActiveAt = now;
+        }
+        if (now - entry.lastActiveAt < SPEAKING_HOLD_MS) {
+          next[id] = true;
+          if (entry.level > loudestLevel) {
+            loudest = id;
+            loudestLevel = entry.level;
+          }
+        }
+      });
+
+      const speakingKey = Object.keys(next).sort().join('|');
+      if (speakingKey !== lastSpeakingKey) {
+        lastSpeakingKey = speakingKey;
+        setSpeaking(next);
+      }
+
+      if (!loudest) {
+        candidate = null;
+        return;
+      }
+      if (loudest !== candidate) {
+        candidate = loudest;
+        candidateSince = now;
+      }
+      if (now - candidateSince >= DOMINANT_SWITCH_MS) {
+        setDominantSpeaker(candidate);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Si el orador dominante sale de la llamada, olvidarlo
+  useEffect(() => {
+    if (dominantSpeaker && !streams[dominantSpeaker]) {
+      setDominantSpeaker(null);
+    }
+  }, [dominantSpeaker, streams]);
+
+  // Liberar WebAudio al desmontar
+  useEffect(() => {
+    const meters = metersRef.current;
+    return () => {
+      meters.forEach((entry) => entry.meter.disconnect());
+      meters.clear();
+      contextRef.current?.close().catch(() => undefined);
+      contextRef.current = null;
+    };
+  }, []);
+
+  return { speaking, dominantSpeaker };
+}
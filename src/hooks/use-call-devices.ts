@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { DevicePreferences, useDeviceStore } from '@/store/deviceStore';
+import type { CallInputKind } from '@/services/webrtc';
+
+interface UseCallDevicesOptions {
+  /** User whose device preferences are read and persisted. */
+  userId: string;
+  /** Local call stream; its tracks reveal which devices are in use. */
+  localStream: MediaStream | null;
+  /** Swaps an input device on every peer (from `useCall`). */
+  switchDevice: (kind: CallInputKind, deviceId?: string) => Promise<void>;
+}
+
+const INPUT_KINDS: Record<CallInputKind, { key: 'audioInputId' | 'videoInputId'; name: string }> = {
+  audioinput: { key: 'audioInputId', name: 'micrófono' },
+  videoinput: { key: 'videoInputId', name: 'cámara' },
+};
+
+/**
+ * Binds device preferences to a running call: applies choices, persists them per user and
+ * recovers when a device is unplugged or reconnected.
+ * @returns The device lists, the user's preferences and a setter that applies and persists a choice.
+ * @remarks On `devicechange`, an input whose device vanished falls back to the default device, and
+ * a preferred device that comes back is picked up again.
+ */
+export function useCallDevices({ userId, localStream, switchDevice }: UseCallDevicesOptions) {
+  const devices = useMediaDevices();
+  const preferences = useDeviceStore((state) => state.getPreferences(userId));
+  const setPreferences = useDeviceStore((state) => state.setPreferences);
+  const { audioInputs, videoInputs, refresh } = devices;
+  // useCall entrega un MediaStream nuevo en cada evento: la media en uso se identifica por sus pistas
+  const trackKey = localStream?.getTracks().map((track) => track.id).join(',') ?? '';
+  /** Tracks for which the device list was refreshed after permissions were granted. */
+  const [enumeratedTrackKey, setEnumeratedTrackKey] = useState('');
+  const preferencesRef = useRef(preferences);
+  const switchDeviceRef = useRef(switchDevice);
+  const localStreamRef = useRef(localStream);
+
+  useEffect(() => {
+    preferencesRef.current = preferences;
+    switchDeviceRef.current = switchDevice;
+    localStreamRef.current = localStream;
+  }, [preferences, switchDevice, localStream]);
+
+  // Con permisos concedidos los dispositivos ya exponen sus nombres e identificadores
+  useEffect(() => {
+    if (!trackKey) return;
+    let cancelled = false;
+    refresh().then(() => {
+      if (!cancelled) setEnumeratedTrackKey(trackKey);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [trackKey, refresh]);
+
+  // Reconciliar dispositivos en uso con los conectados
+  useEffect(() => {
+    const stream = localStreamRef.current;
+    // Antes de enumerar con permisos los deviceId llegan vacíos y todo parecería desconectado
+    if (!stream || !trackKey || enumeratedTrackKey !== trackKey) return;
+
+    (Object.keys(INPUT_KINDS) as CallInputKind[]).forEach((kind) => {
+      const { key, name } = INPUT_KINDS[kind];
+      const available = kind === 'audioinput' ? audioInputs : videoInputs;
+      const track = kind === 'audioinput' ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+      if (!track || available.length === 0 || available.some((device) => !device.deviceId)) return;
+
+      const switchDevice = switchDeviceRef.current;
+      const isAvailable = (deviceId?: string) => available.some((device) => device.deviceId === deviceId);
+      const currentId = track.getSettings().deviceId;
+      const preferredId = preferencesRef.current[key];
+      const lost = track.readyState === 'ended' || (currentId !== 'default' && !isAvailable(currentId));
+
+      if (lost) {
+        const target = isAvailable(preferredId) ? preferredId : undefined;
+        switchDevice(kind, target)
+          .then(() => toast.info(`Se desconectó el ${name}; usando otro dispositivo`))
+          .catch((err) => console.warn('[useCallDevices] No se pudo recuperar', kind, err));
+      } else if (preferredId && preferredId !== currentId && isAvailable(preferredId)) {
+        switchDevice(kind, preferredId).catch((err) =>
+          console.warn('[useCallDevices] No se pudo volver al dispositivo preferido', kind, err)
+        );
+      }
+    });
+    // Las preferencias se leen por ref: un cambio de preferencia se aplica en changeDevice
+  }, [audioInputs, videoInputs, trackKey, enumeratedTrackKey]);
+
+  const changeDevice = useCallback(
+    async (key: keyof DevicePreferences, deviceId: string | undefined) => {
+      setPreferences(userId, { [key]: deviceId });
+      if (key === 'audioOutputId') return;
+
+      try {
+        await switchDevice(key === 'audioInputId' ? 'audioinput' : 'videoinput', deviceId);
+      } catch (err) {
+        console.error('[useCallDevices] Error cambiando dispositivo:', err);
+        toast.error('No se pudo usar el dispositivo seleccionado');
+      }
+    },
+    [userId, setPreferences, switchDevice]
+  );
+
+  return { devices, preferences, changeDevice };
+}
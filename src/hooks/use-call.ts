@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  callManager,
+  CallConnectionState,
+  CallJoinOptions,
+  CallError,
+  CallInputKind,
+  PeerConnectionState,
+  PeerIdentity,
+  PeerMediaState,
+} from '@/services/webrtc';
+
+interface UseCallOptions {
+  /** Meeting identifier used as the signaling room. */
+  meetingId: string;
+  /** Joins the call while true; leaves when it turns false or on unmount. */
+  enabled: boolean;
+  /** Start with the microphone enabled (read once per join). */
+  initialAudio?: boolean;
+  /** Start with the camera enabled (read once per join). */
+  initialVideo?: boolean;
+  /** Preferred microphone (read once per join; use `switchDevice` afterwards). */
+  audioInputId?: string;
+  /** Preferred camera (read once per join; use `switchDevice` afterwards). */
+  videoInputId?: string;
+  /** Join without publishing media (viewers); toggling it rejoins the call. */
+  receiveOnly?: boolean;
+}
+
+interface UseCallReturn {
+  /** Call connection state. */
+  connectionState: CallConnectionState;
+  /** Local camera/microphone stream once acquired. */
+  localStream: MediaStream | null;
+  /** Remote streams keyed by peer id. */
+  remoteStreams: Record<string, MediaStream>;
+  /** Identity announced by each peer. */
+  peerIdentities: Record<string, PeerIdentity>;
+  /** Microphone/camera/screen state announced by each peer. */
+  peerMediaStates: Record<string, PeerMediaState>;
+  /** Connection state of each peer; `reconnecting` while ICE restarts or the peer is rebuilt. */
+  peerConnectionStates: Record<string, PeerConnectionState>;
+  /** Last join/signaling error, cleared on the next join. */
+  error: CallError | null;
+  /** Mutes or unmutes the microphone for every peer. */
+  setMicrophoneEnabled: (enabled: boolean) => void;
+  /** Pauses or resumes the camera for every peer. */
+  setCameraEnabled: (enabled: boolean) => void;
+  /** Publishes a screen capture track in place of the camera. */
+  startScreenShare: (track: MediaStreamTrack) => void;
+  /** Restores the camera track after a screen share. */
+  stopScreenShare: () => void;
+  /** Swaps the microphone or camera on every peer; rejects if the device cannot be opened. */
+  switchDevice: (kind: CallInputKind, deviceId?: string) => Promise<void>;
+  /** Leaves the call immediately. */
+  leave: () => void;
+}
+
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  if (!(key in record)) return record;
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
+
+/**
+ * React binding for `callManager`: joins the meeting call and mirrors its state.
+ *
+ * @remarks A single `CallManager` owns the signaling socket, peers and local tracks; this hook
+ * only subscribes to its events, so there is exactly one call per tab.
+ *
+ * @example
+ * ```tsx
+ * const { connectionState, localStream, remoteStreams, setMicrophoneEnabled } = useCall({
+ *   meetingId: meeting.id,
+ *   enabled: canJoinCall,
+ * });
+ * ```
+ */
+export function useCall({
+  meetingId,
+  enabled,
+  initialAudio = true,
+  initialVideo = true,
+  audioInputId,
+  videoInputId,
+  receiveOnly = false,
+}: UseCallOptions): UseCallReturn {
+  const [connectionState, setConnectionState] = useState<CallConnectionState>(
+    callManager.getConnectionState()
+  );
+  const [localStream, setLocalStream] = useState<MediaStream | null>(callManager.getLocalStream());
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [peerIdentities, setPeerIdentities] = useState<Record<string, PeerIdentity>>({});
+  const [peerMediaStates, setPeerMediaStates] = useState<Record<string, PeerMediaState>>({});
+  const [peerConnectionStates, setPeerConnectionStates] = useState<Record<string, PeerConnectionState>>({});
+  const [error, setError] = useState<CallError | null>(null);
+
+  const joinOptionsRef = useRef<CallJoinOptions>({});
+  joinOptionsRef.current = { audio: initialAudio, video: initialVideo, audioInputId, videoInputId, receiveOnly };
+
+  // Suscribirse a los eventos del CallManager
+  useEffect(() => {
+    const unsubscribers = [
+      callManager.on('stateChange', setConnectionState),
+      // Copia nueva en cada cambio de pistas para que React y los analizadores de audio se actualicen
+      callManager.on('localStream', (stream) => {
+        setLocalStream(stream ? new MediaStream(stream.getTracks()) : null);
+      }),
+      callManager.on('error', setError),
+      callManager.on('remoteStream', (peerId, stream) => {
+        setRemoteStreams((prev) => ({ ...prev, [peerId]: stream }));
+      }),
+      callManager.on('peerIdentity', (peerId, identity) => {
+        setPeerIdentities((prev) => ({ ...prev, [peerId]: identity }));
+      }),
+      callManager.on('peerMediaState', (peerId, state) => {
+        setPeerMediaStates((prev) => ({ ...prev, [peerId]: state }));
+      }),
+      callManager.on('peerConnectionState', (peerId, state) => {
+        setPeerConnectionStates((prev) => ({ ...prev, [peerId]: state }));
+      }),
+      callManager.on('peerLeft', (peerId) => {
+        setRemoteStreams((prev) => omitKey(prev, peerId));
+        setPeerIdentities((prev) => omitKey(prev, peerId));
+        setPeerMediaStates((prev) => omitKey(prev, peerId));
+        setPeerConnectionStates((prev) => omitKey(prev, peerId));
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  // Unirse mientras esté habilitado
+  useEffect(() => {
+    if (!meetingId || !enabled) return;
+
+    setError(null);
+    callManager.join(meetingId, joinOptionsRef.current).catch(() => {
+      // El error ya se publica mediante el evento 'error'
+    });
+
+    return () => {
+      callManager.leave();
+      setRemoteStreams({});
+      setPeerIdentities({});
+      setPeerMediaStates({});
+      setPeerConnectionStates({});
+    };
+  }, [meetingId, enabled, receiveOnly]);
+
+  const setMicrophoneEnabled = useCallback((value: boolean) => {
+    callManager.setMicrophoneEnabled(value);
+  }, []);
+
+  const setCameraEnabled = useCallback((value: boolean) => {
+    callManager.setCameraEnabled(value);
+  }, []);
+
+  const startScreenShare = useCallback((track: MediaStreamTrack) => {
+    callManager.startScreenShare(track);
+  }, []);
+
+  const stopScreenShare = useCallback(() => {
+    callManager.stopScreenShare();
+  }, []);
+
+  const switchDevice = useCallback((kind: CallInputKind, deviceId?: string) => {
+    return callManager.switchDevice(kind, deviceId);
+  }, []);
+
+  const leave = useCallback(() => {
+    callManager.leave();
+  }, []);
+
+  return {
+    connectionState,
+    localStream,
+    remoteStreams,
+    peerIdentities,
+    peerMediaStates,
+    peerConnectionStates,
+    error,
+    setMicrophoneEnabled,
+    setCameraEnabled,
+    startScreenShare,
+    stopScreenShare,
+    switchDevice,
+    leave,
+  };
+}
@@ -0,0 +1,86 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { getMessagePreview } from '@/lib/chat-markdown';
+import { requestDesktopNotificationPermission, showDesktopNotification } from '@/lib/desktop-notifications';
+import type { ChatMessage } from '@/services/chat';
+import {
+  ChatNotificationPreferences,
+  DEFAULT_CHAT_NOTIFICATIONS,
+  useNotificationStore,
+} from '@/store/notificationStore';
+
+interface NotifyOptions {
+  /** The message's conversation is on screen, so no toast is needed. */
+  isConversationVisible: boolean;
+  /** Opens the chat on the message's conversation. */
+  onOpen: () => void;
+}
+
+interface UseChatNotificationsReturn {
+  preferences: ChatNotificationPreferences;
+  setPreferences: (patch: Partial<ChatNotificationPreferences>) => void;
+  /**
+   * Turns desktop notifications on after asking the browser for permission.
+   * @returns Whether permission was granted.
+   */
+  enableDesktopNotifications: () => Promise<boolean>;
+  /** Notifies about an incoming message from another user according to the preferences. */
+  notifyNewMessage: (message: ChatMessage, options: NotifyOptions) => void;
+}
+
+/**
+ * Chat notification preferences of a user and the logic that picks how to announce a message.
+ * @remarks With the tab hidden, a browser notification is shown if the user opted in; with the tab
+ * visible, a toast is shown unless the conversation is already on screen. Level `mentions` only
+ * announces mentions and private messages; the unread badge still counts everything.
+ */
+export function useChatNotifications(userId: string): UseChatNotificationsReturn {
+  const stored = useNotificationStore((state) => state.preferences[userId]);
+  const savePreferences = useNotificationStore((state) => state.setPreferences);
+  const preferences: ChatNotificationPreferences = { ...DEFAULT_CHAT_NOTIFICATIONS, ...stored };
+
+  const setPreferences = useCallback(
+    (patch: Partial<ChatNotificationPreferences>) => savePreferences(userId, patch),
+    [savePreferences, userId]
+  );
+
+  const enableDesktopNotifications = useCallback(async () => {
+    const permission = await requestDesktopNotificationPermission();
+    const granted = permission === 'granted';
+    setPreferences({ desktop: granted });
+    return granted;
+  }, [setPreferences]);
+
+  const notifyNewMessage = (message: ChatMessage, { isConversationVisible, onOpen }: NotifyOptions) => {
+    // Un privado entre otros participantes también llega por difusión: nunca avisar de él
+    if (message.recipientId && message.recipientId !== userId) return;
+    const isDirect = message.recipientId === userId;
+    const isMention = Boolean(message.mentions?.some((mention) => mention.userId === userId));
+    if (preferences.notifyOn === 'mentions' && !isDirect && !isMention) return;
+
+    const author = message.userName ?? 'Usuario';
+    const title = isDirect ? `Mensaje privado de ${author}` : isMention ? `${author} te mencionó` : author;
+    const body = getMessagePreview(message);
+
+    if (document.visibilityState === 'hidden') {
+      if (preferences.desktop) {
+        // Un único aviso por conversación que se va actualizando
+        showDesktopNotification(title, {
+          body,
+          tag: `chat-${message.meetingId}-${isDirect ? message.userId : 'room'}`,
+          onClick: onOpen,
+        });
+        return;
+      }
+    } else if (isConversationVisible) {
+      return;
+    }
+
+    toast(title, {
+      description: body,
+      action: { label: isDirect ? 'Responder' : 'Ver', onClick: onOpen },
+    });
+  };
+
+  return { preferences, setPreferences, enableDesktopNotifications, notifyNewMessage };
+}
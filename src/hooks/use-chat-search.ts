@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getConversationId } from '@/hooks/use-chat';
+import {
+  ChatSearchFilters,
+  EMPTY_CHAT_SEARCH,
+  isChatSearchActive,
+  matchesChatSearch,
+  toChatSearchQuery,
+} from '@/lib/chat-search';
+import type { ChatMessage, ChatSearchQuery } from '@/services/chat';
+
+/** Pause after the last keystroke before querying the backend. */
+const HISTORY_SEARCH_DEBOUNCE_MS = 400;
+
+interface UseChatSearchOptions {
+  /** Loaded messages of the conversation on screen. */
+  messages: ChatMessage[];
+  /** Conversation on screen; backend results from other conversations are dropped. */
+  conversationId: string;
+  /** Local user, to resolve conversations of private messages. */
+  userId: string;
+  /** Whether older history is not loaded, so the backend has to be searched as well. */
+  hasMoreHistory: boolean;
+  /** Backend search (`useChat().searchMessages`). */
+  searchHistory: (query: ChatSearchQuery) => Promise<ChatMessage[]>;
+}
+
+interface UseChatSearchReturn {
+  filters: ChatSearchFilters;
+  setFilters: (filters: ChatSearchFilters) => void;
+  /** Whether any filter is set. */
+  isActive: boolean;
+  /** Matching messages, oldest first: loaded ones plus backend matches from older history. */
+  results: ChatMessage[];
+  /** Index of the selected result; -1 when there are none. */
+  activeIndex: number;
+  activeResultId: string | null;
+  /** The backend search is running. */
+  isSearchingHistory: boolean;
+  /** Selects the previous (older) result, wrapping around. */
+  selectOlder: () => void;
+  /** Selects the next (newer) result, wrapping around. */
+  selectNewer: () => void;
+  /** Clears every filter. */
+  reset: () => void;
+}
+
+/**
+ * Filters chat messages by text, author and date range and tracks the selected result.
+ * @remarks Loaded messages are matched locally at once; while older pages are not loaded the same
+ * filters are also sent to the backend (debounced) and its results are merged in. The newest result
+ * is selected whenever the filters change.
+ */
+export function useChatSearch({
+  messages,
+  conversationId,
+  userId,
+  hasMoreHistory,
+  searchHistory,
+}: UseChatSearchOptions): UseChatSearchReturn {
+  const [filters, setFiltersState] = useState<ChatSearchFilters>(EMPTY_CHAT_SEARCH);
+  const [historyResults, setHistoryResults] = useState<ChatMessage[]>([]);
+  const [isSearchingHistory, setIsSearchingHistory] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const isActive = isChatSearchActive(filters);
+
+  useEffect(() => {
+    setHistoryResults([]);
+    if (!isActive || !hasMoreHistory) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsSearchingHistory(true);
+      searchHistory(toChatSearchQuery(filters))
+        .then((found) => {
+          if (!cancelled) setHistoryResults(found);
+        })
+        .catch((error) => console.error('Error buscando en el historial del chat', error))
+        .finally(() => {
+          if (!cancelled) setIsSearchingHistory(false);
+        });
+    }, HISTORY_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsSearchingHistory(false);
+    };
+  }, [filters, isActive, hasMoreHistory, searchHistory]);
+
+  const results = useMemo(() => {
+    if (!isActive) return [];
+    const byId = new Map<string, ChatMessage>();
+    historyResults
+      .filter((m) => getConversationId(m, userId) === conversationId && matchesChatSearch(m, filters))
+      .forEach((m) => byId.set(m.messageId, m));
+    // Los mensajes cargados ganan: pueden tener ediciones o reacciones más recientes
+    messages.filter((m) => matchesChatSearch(m, filters)).forEach((m) => byId.set(m.messageId, m));
+    return Array.from(byId.values()).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }, [isActive, messages, historyResults, filters, conversationId, userId]);
+
+  // Sin selección válida se apunta al resultado más reciente
+  const activeIndex =
+    results.length === 0 ? -1 : selectedIndex < 0 || selectedIndex >= results.length ? results.length - 1 : selectedIndex;
+
+  const setFilters = (next: ChatSearchFilters) => {
+    setFiltersState(next);
+    setSelectedIndex(-1);
+  };
+
+  return {
+    filters,
+    setFilters,
+    isActive,
+    results,
+    activeIndex,
+    activeResultId: activeIndex >= 0 ? results[activeIndex].messageId : null,
+    isSearchingHistory,
+    selectOlder: () => {
+      if (results.length > 0) setSelectedIndex((activeIndex - 1 + results.length) % results.length);
+    },
+    selectNewer: () => {
+      if (results.length > 0) setSelectedIndex((activeIndex + 1) % results.length);
+    },
+    reset: () => setFilters(EMPTY_CHAT_SEARCH),
+  };
+}
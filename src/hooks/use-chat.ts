@@ -1,5 +1,17 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { chatService, ChatConnectionState, ChatMessage, UsersOnlinePayload } from '@/services/chat';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  chatService,
+  ChatAttachment,
+  ChatConnectionState,
+  ChatHistoryCursor,
+  ChatMention,
+  ChatMessage,
+  ChatSearchQuery,
+  MessageDeliveryStatus,
+  SendMessageOptions,
+  UsersOnlinePayload,
+} from '@/services/chat';
+import { canSeeMessage } from '@/lib/chat-visibility';
 import { useAuthStore } from '@/store/authStore';
 
 interface UseChatOptions {
@@ -7,7 +19,7 @@ interface UseChatOptions {
   meetingId: string;
   /** Whether to auto-connect on mount. */
   autoConnect?: boolean;
-  /** Max number of historical messages to load. */
+  /** Page size when loading history; older pages are fetched with `loadOlderMessages`. */
   historyLimit?: number;
   /** Called for each incoming message. */
   onNewMessage?: (message: ChatMessage) => void;
@@ -15,27 +27,108 @@ interface UseChatOptions {
   onUsersOnline?: (payload: UsersOnlinePayload) => void;
   /** Called when the chat service emits an error. */
   onError?: (error: { code: string; message: string }) => void;
+  /** Conversation on screen (see `getConversationId`); its messages are not counted as unread. */
+  activeConversationId?: string | null;
 }
 
 interface UseChatReturn {
   /** Messages (history + new ones) for the current room. */
   messages: ChatMessage[];
+  /** Replies grouped by the id of their thread's root message, oldest first. */
+  threads: Record<string, ChatMessage[]>;
+  /** Unread messages per conversation id. */
+  unreadCounts: Record<string, number>;
+  /**
+   * First message that arrived unread, per conversation id; kept while the conversation is on
+   * screen so the panel can draw a "new messages" divider, and dropped once the user leaves it.
+   */
+  firstUnreadMessageIds: Record<string, string>;
+  /** Delivery state of the local user's messages sent or queued in this session, by message id. */
+  deliveryStatus: Record<string, MessageDeliveryStatus>;
   /** Connection state reported by chat service. */
   connectionState: ChatConnectionState;
   /** Indicates when message history is loading. */
   isLoadingHistory: boolean;
+  /** Whether the backend may still hold messages older than the loaded ones. */
+  hasMoreHistory: boolean;
+  /** Indicates when an older page of history is loading. */
+  isLoadingOlder: boolean;
   /** Last error, if any. */
   error: Error | null;
   /** Users online payload for the room. */
   usersOnline: UsersOnlinePayload | null;
-  /** Sends a chat message. */
-  sendMessage: (message: string) => void;
+  /** Whether the server supports private messages (see `chatService.supportsPrivateMessages`). */
+  canSendPrivate: boolean;
+  /** Sends a chat message, optionally mentioning users, replying to another message or with attachments. */
+  sendMessage: (message: string, options?: SendMessageOptions) => void;
+  /** Uploads a file to attach to the next message. */
+  uploadAttachment: (file: File) => Promise<ChatAttachment>;
+  /** Sends a failed message again. */
+  retryMessage: (messageId: string) => void;
+  /** Removes a failed message from the outbox and the list. */
+  discardMessage: (messageId: string) => void;
+  /** Edits an own message; applied optimistically and rolled back if the server refuses. */
+  editMessage: (messageId: string, message: string, mentions?: ChatMention[]) => Promise<void>;
+  /** Deletes a message; applied optimistically and rolled back if the server refuses. */
+  deleteMessage: (messageId: string) => Promise<void>;
+  /** Adds or removes the local user's reaction to a message. */
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
   /** Connects manually to the chat service. */
   connect: () => void;
   /** Disconnects manually from the chat service. */
   disconnect: () => void;
   /** Reloads history from backend. */
   reloadHistory: () => Promise<void>;
+  /** Loads the page of history before the oldest loaded message. */
+  loadOlderMessages: () => Promise<void>;
+  /** Searches the whole history on the backend, for messages older than the loaded pages. */
+  searchMessages: (query: ChatSearchQuery) => Promise<ChatMessage[]>;
+}
+
+/** Conversation id of the room-wide chat. */
+export const ROOM_CONVERSATION_ID = 'everyone';
+
+/**
+ * Conversation a message belongs to: the room, or the other participant of a private chat.
+ * @param message Message to classify.
+ * @param userId Local user.
+ */
+export function getConversationId(message: ChatMessage, userId: string): string {
+  if (!message.recipientId) return ROOM_CONVERSATION_ID;
+  return message.userId === userId ? message.recipientId : message.userId;
+}
+
+/**
+ * Merges two message lists by `messageId`, in chronological order.
+ * @remarks `incoming` wins on conflicts, so a page fetched from the backend refreshes stale copies
+ * while live messages that arrived during the request are kept.
+ */
+function mergeMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(current.map((m) => [m.messageId, m]));
+  incoming.forEach((m) => byId.set(m.messageId, { ...byId.get(m.messageId), ...m }));
+  return Array.from(byId.values()).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Groups replies under the root of their thread; replies to replies join the same thread.
+ */
+function groupThreads(messages: ChatMessage[]): Record<string, ChatMessage[]> {
+  const byId = new Map(messages.map((m) => [m.messageId, m]));
+  const threads: Record<string, ChatMessage[]> = {};
+
+  messages.forEach((message) => {
+    if (!message.parentMessageId) return;
+    let rootId = message.parentMessageId;
+    const visited = new Set([message.messageId]);
+    // Subir por la cadena de respuestas hasta el mensaje raíz (o hasta el primero no cargado)
+    while (byId.get(rootId)?.parentMessageId && !visited.has(rootId)) {
+      visited.add(rootId);
+      rootId = byId.get(rootId).parentMessageId;
+    }
+    threads[rootId] = [...(threads[rootId] ?? []), message];
+  });
+
+  return threads;
 }
 
 /**
@@ -59,14 +152,23 @@ export function useChat({
   onNewMessage,
   onUsersOnline,
   onError,
+  activeConversationId = null,
 }: UseChatOptions): UseChatReturn {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [connectionState, setConnectionState] = useState<ChatConnectionState>('disconnected');
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingOlderRef = useRef(false);
   const [error, setError] = useState<Error | null>(null);
   const [usersOnline, setUsersOnline] = useState<UsersOnlinePayload | null>(null);
+  const [canSendPrivate, setCanSendPrivate] = useState(() => chatService.supportsPrivateMessages());
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [firstUnreadMessageIds, setFirstUnreadMessageIds] = useState<Record<string, string>>({});
+  const [deliveryStatus, setDeliveryStatus] = useState<Record<string, MessageDeliveryStatus>>({});
   
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, user } = useAuthStore();
+  const userId = user?.id ?? '';
   const isMountedRef = useRef(true);
   
   // Usar ref para mantener meetingId actualizado sin causar re-renders
@@ -75,6 +177,38 @@ export function useChat({
     meetingIdRef.current = meetingId;
   }, [meetingId]);
 
+  // Último estado confirmado, para revertir cambios optimistas
+  const messagesRef = useRef<ChatMessage[]>([]);
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Mensaje más antiguo recibido del backend, incluidos los privados ajenos que no se muestran
+  const historyCursorRef = useRef<ChatHistoryCursor | null>(null);
+
+  // Al abrir una conversación sus mensajes pasan a leídos
+  const activeConversationRef = useRef(activeConversationId);
+  useEffect(() => {
+    const previousConversationId = activeConversationRef.current;
+    activeConversationRef.current = activeConversationId;
+    // El separador de "nuevos" desaparece al salir de la conversación
+    if (previousConversationId && previousConversationId !== activeConversationId) {
+      setFirstUnreadMessageIds((prev) => {
+        if (!prev[previousConversationId]) return prev;
+        const next = { ...prev };
+        delete next[previousConversationId];
+        return next;
+      });
+    }
+    if (!activeConversationId) return;
+    setUnreadCounts((prev) => {
+      if (!prev[activeConversationId]) return prev;
+      const next = { ...prev };
+      delete next[activeConversationId];
+      return next;
+    });
+  }, [activeConversationId]);
+
   // Cargar historial de mensajes
   const loadHistory = useCallback(async () => {
     if (!meetingId) return;
@@ -85,7 +219,25 @@ export function useChat({
     try {
       const history = await chatService.loadHistory(meetingId, historyLimit);
       if (isMountedRef.current) {
-        setMessages(history);
+        historyCursorRef.current = history[0]
+          ? { timestamp: history[0].timestamp, messageId: history[0].messageId }
+          : null;
+        // Los mensajes aún en la bandeja de salida se muestran tras el historial
+        const visibleHistory = history.filter((m) => canSeeMessage(m, userId));
+        const pending = chatService
+          .getPendingMessages(meetingId)
+          .filter(({ message }) => !history.some((m) => m.messageId === message.messageId));
+        // Conservar los mensajes en vivo que llegaron mientras se cargaba la página
+        setMessages((prev) =>
+          mergeMessages(
+            prev.filter((m) => m.meetingId === meetingId),
+            [...visibleHistory, ...pending.map(({ message }) => message)]
+          )
+        );
+        setHasMoreHistory(history.length >= historyLimit);
+        setDeliveryStatus((prev) =>
+          pending.reduce((acc, { message, status }) => ({ ...acc, [message.messageId]: status }), prev)
+        );
       }
     } catch (err) {
       console.error('Error cargando historial de chat:', err);
@@ -97,7 +249,45 @@ export function useChat({
         setIsLoadingHistory(false);
       }
     }
-  }, [meetingId, historyLimit]);
+  }, [meetingId, historyLimit, userId]);
+
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messagesRef.current[0];
+    const cursor =
+      historyCursorRef.current ?? (oldest ? { timestamp: oldest.timestamp, messageId: oldest.messageId } : null);
+    if (!meetingId || !cursor || isLoadingOlderRef.current) return;
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+
+    try {
+      const page = await chatService.loadHistory(meetingId, historyLimit, cursor);
+      if (isMountedRef.current) {
+        if (page[0]) historyCursorRef.current = { timestamp: page[0].timestamp, messageId: page[0].messageId };
+        setMessages((prev) => mergeMessages(prev, page.filter((m) => canSeeMessage(m, userId))));
+        setHasMoreHistory(page.length >= historyLimit);
+      }
+    } catch (err) {
+      console.error('Error cargando mensajes anteriores:', err);
+      if (isMountedRef.current) {
+        setError(err instanceof Error ? err : new Error('Error cargando mensajes anteriores'));
+      }
+    } finally {
+      isLoadingOlderRef.current = false;
+      if (isMountedRef.current) {
+        setIsLoadingOlder(false);
+      }
+    }
+  }, [meetingId, historyLimit, userId]);
+
+  const searchMessages = useCallback(
+    async (query: ChatSearchQuery) => {
+      if (!meetingId) return [];
+      const results = await chatService.searchHistory(meetingId, query);
+      return results.filter((m) => canSeeMessage(m, userId));
+    },
+    [meetingId, userId]
+  );
 
   // Conectar al chat
   const connect = useCallback(() => {
@@ -117,20 +307,120 @@ export function useChat({
   }, []);
 
   // Enviar mensaje
-  const sendMessage = useCallback((message: string) => {
-    if (!message.trim()) return;
-    chatService.sendMessage(message.trim());
+  const sendMessage = useCallback((message: string, options?: SendMessageOptions) => {
+    // Un mensaje solo con adjuntos puede ir sin texto
+    if (!message.trim() && !options?.attachments?.length) return;
+    const queued = chatService.sendMessage(message.trim(), options);
+    if (!queued) return;
+    // Se muestra al instante; el eco del servidor lo sustituye al llegar
+    setMessages((prev) => (prev.some((m) => m.messageId === queued.messageId) ? prev : [...prev, queued]));
+  }, []);
+
+  const retryMessage = useCallback((messageId: string) => chatService.retryMessage(messageId), []);
+
+  const discardMessage = useCallback((messageId: string) => {
+    chatService.discardMessage(messageId);
+    setMessages((prev) => prev.filter((m) => m.messageId !== messageId));
+    setDeliveryStatus((prev) => {
+      const next = { ...prev };
+      delete next[messageId];
+      return next;
+    });
+  }, []);
+
+  const uploadAttachment = useCallback((file: File) => chatService.uploadAttachment(file), []);
+
+  const threads = useMemo(() => groupThreads(messages), [messages]);
+
+  /**
+   * Applies `update` to the message with `messageId`, leaving the rest untouched.
+   */
+  const patchMessage = useCallback((messageId: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => prev.map((m) => (m.messageId === messageId ? update(m) : m)));
   }, []);
 
+  /**
+   * Runs `request` after an optimistic change and restores the previous message if it fails.
+   */
+  const withRollback = useCallback(
+    async (messageId: string, optimistic: (message: ChatMessage) => ChatMessage, request: () => Promise<void>) => {
+      const snapshot = messagesRef.current.find((m) => m.messageId === messageId);
+      if (!snapshot) return;
+      patchMessage(messageId, optimistic);
+
+      try {
+        await request();
+      } catch (err) {
+        console.error('[useChat] Operación rechazada, revirtiendo:', messageId, err);
+        if (isMountedRef.current) patchMessage(messageId, () => snapshot);
+        throw err;
+      }
+    },
+    [patchMessage]
+  );
+
+  const editMessage = useCallback(
+    (messageId: string, message: string, mentions: ChatMention[] = []) => {
+      const text = message.trim();
+      if (!text) return Promise.resolve();
+      return withRollback(
+        messageId,
+        (m) => ({ ...m, message: text, mentions, editedAt: new Date().toISOString() }),
+        () => chatService.editMessage(messageId, text, mentions)
+      );
+    },
+    [withRollback]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string) =>
+      withRollback(
+        messageId,
+        (m) => ({ ...m, message: '', mentions: [], deletedAt: new Date().toISOString() }),
+        () => chatService.deleteMessage(messageId)
+      ),
+    [withRollback]
+  );
+
+  const toggleReaction = useCallback(
+    (messageId: string, emoji: string) => {
+      const target = messagesRef.current.find((m) => m.messageId === messageId);
+      if (!target || !userId) return Promise.resolve();
+      const add = !target.reactions?.[emoji]?.includes(userId);
+
+      return withRollback(
+        messageId,
+        (m) => {
+          const users = (m.reactions?.[emoji] ?? []).filter((id) => id !== userId);
+          const reactions = { ...m.reactions, [emoji]: add ? [...users, userId] : users };
+          if (reactions[emoji].length === 0) delete reactions[emoji];
+          return { ...m, reactions };
+        },
+        () => chatService.reactToMessage(messageId, emoji, add)
+      );
+    },
+    [userId, withRollback]
+  );
+
   // Suscribirse a eventos del chat
   useEffect(() => {
     // Listener para nuevos mensajes
     const unsubMessage = chatService.onMessage((message) => {
+      // El servidor no debería enviar privados ajenos; si llega alguno, no se muestra
+      if (!canSeeMessage(message, userId)) return;
       if (isMountedRef.current) {
+        const conversationId = getConversationId(message, userId);
+        const isNew = !messagesRef.current.some((m) => m.messageId === message.messageId);
+        if (isNew && message.userId !== userId && conversationId !== activeConversationRef.current) {
+          setUnreadCounts((prev) => ({ ...prev, [conversationId]: (prev[conversationId] ?? 0) + 1 }));
+          setFirstUnreadMessageIds((prev) =>
+            prev[conversationId] ? prev : { ...prev, [conversationId]: message.messageId }
+          );
+        }
         setMessages((prev) => {
-          // Evitar duplicados
+          // Evitar duplicados; la copia del servidor reemplaza a la local de la bandeja de salida
           if (prev.some((m) => m.messageId === message.messageId)) {
-            return prev;
+            return prev.map((m) => (m.messageId === message.messageId ? { ...m, ...message } : m));
           }
           return [...prev, message];
         });
@@ -138,6 +428,21 @@ export function useChat({
       }
     });
 
+    // Ediciones, borrados y reacciones: el servidor manda el estado definitivo por messageId
+    const unsubEdited = chatService.onMessageEdited(({ messageId, message, mentions, editedAt }) => {
+      if (isMountedRef.current) patchMessage(messageId, (m) => ({ ...m, message, mentions, editedAt }));
+    });
+    const unsubDeleted = chatService.onMessageDeleted(({ messageId, deletedAt }) => {
+      if (isMountedRef.current) patchMessage(messageId, (m) => ({ ...m, message: '', mentions: [], deletedAt }));
+    });
+    const unsubReactions = chatService.onMessageReactions(({ messageId, reactions }) => {
+      if (isMountedRef.current) patchMessage(messageId, (m) => ({ ...m, reactions }));
+    });
+
+    const unsubDelivery = chatService.onDeliveryStatus((messageId, status) => {
+      if (isMountedRef.current) setDeliveryStatus((prev) => ({ ...prev, [messageId]: status }));
+    });
+
     // Listener para usuarios online (spec: usersOnline event)
     const unsubUsersOnline = chatService.onUsersOnline((payload) => {
       if (isMountedRef.current) {
@@ -146,6 +451,10 @@ export function useChat({
       }
     });
 
+    const unsubCapabilities = chatService.onCapabilities(({ privateMessages }) => {
+      if (isMountedRef.current) setCanSendPrivate(privateMessages);
+    });
+
     // Listener para cambios de estado
     const unsubState = chatService.onConnectionStateChange((state) => {
       if (isMountedRef.current) {
@@ -163,20 +472,26 @@ export function useChat({
 
     return () => {
       unsubMessage();
+      unsubEdited();
+      unsubDeleted();
+      unsubReactions();
+      unsubDelivery();
       unsubUsersOnline();
+      unsubCapabilities();
       unsubState();
       unsubError();
     };
-  }, [onNewMessage, onUsersOnline, onError]);
+  }, [onNewMessage, onUsersOnline, onError, patchMessage, userId]);
 
   // Cargar historial y auto-conectar si está habilitado
   useEffect(() => {
-    if (meetingId && isAuthenticated) {
-      loadHistory();
+    // Sin sala asignada (p.ej. en sala de espera) no hay nada que cargar ni desconectar
+    if (!meetingId || !isAuthenticated) return;
 
-      if (autoConnect) {
-        connect();
-      }
+    loadHistory();
+
+    if (autoConnect) {
+      connect();
     }
 
     return () => {
@@ -195,13 +510,28 @@ export function useChat({
 
   return {
     messages,
+    threads,
+    unreadCounts,
+    firstUnreadMessageIds,
+    deliveryStatus,
     connectionState,
     isLoadingHistory,
+    hasMoreHistory,
+    isLoadingOlder,
     error,
     usersOnline,
+    canSendPrivate,
     sendMessage,
+    uploadAttachment,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     connect,
     disconnect,
     reloadHistory: loadHistory,
+    loadOlderMessages,
+    searchMessages,
   };
 }
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+interface UseMediaDevicesReturn {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+  /** Whether remote audio can be routed to a chosen speaker (`setSinkId`). */
+  supportsOutputSelection: boolean;
+  /** Re-reads the device list, e.g. after permissions are granted. */
+  refresh: () => Promise<void>;
+}
+
+const supportsOutputSelection =
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+/**
+ * Lists cameras, microphones and speakers and keeps the list updated on `devicechange`.
+ * @remarks Device labels are empty until the page has been granted media permissions.
+ *
+ * @example
+ * ```tsx
+ * const { videoInputs } = useMediaDevices();
+ * ```
+ */
+export function useMediaDevices(): UseMediaDevicesReturn {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+    } catch (err) {
+      console.warn('[useMediaDevices] No se pudieron listar los dispositivos:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const audioInputs = useMemo(() => devices.filter((device) => device.kind === 'audioinput'), [devices]);
+  const videoInputs = useMemo(() => devices.filter((device) => device.kind === 'videoinput'), [devices]);
+  const audioOutputs = useMemo(() => devices.filter((device) => device.kind === 'audiooutput'), [devices]);
+
+  return { audioInputs, videoInputs, audioOutputs, supportsOutputSelection, refresh };
+}
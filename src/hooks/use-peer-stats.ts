@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { callManager } from '@/services/webrtc';
+import { PeerNetworkStats, PeerStatsSample, summarizePeerStats } from '@/lib/peer-stats';
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+interface UsePeerStatsOptions {
+  /** Polls while true; stats are cleared when it turns false. */
+  enabled: boolean;
+  /** Polling interval in milliseconds (default 2000). */
+  intervalMs?: number;
+}
+
+/**
+ * Polls `getStats()` for every connected peer of the call.
+ * @returns Network metrics keyed by peer id.
+ * @remarks Bitrate and loss are computed between consecutive polls, so they appear from the
+ * second sample on. Peers that leave are dropped on the next poll.
+ *
+ * @example
+ * ```tsx
+ * const peerStats = usePeerStats({ enabled: callState === 'connected' });
+ * const quality = peerStats[peerId]?.quality;
+ * ```
+ */
+export function usePeerStats({
+  enabled,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: UsePeerStatsOptions): Record<string, PeerNetworkStats> {
+  const [stats, setStats] = useState<Record<string, PeerNetworkStats>>({});
+  const samplesRef = useRef<Record<string, PeerStatsSample>>({});
+
+  useEffect(() => {
+    if (!enabled) {
+      samplesRef.current = {};
+      setStats({});
+      return;
+    }
+
+    let cancelled = false;
+
+    const poll = async () => {
+      const reports = await callManager.getPeerStats();
+      if (cancelled) return;
+
+      const next: Record<string, PeerNetworkStats> = {};
+      Object.entries(reports).forEach(([peerId, report]) => {
+        next[peerId] = summarizePeerStats(report, samplesRef.current[peerId]);
+      });
+      samplesRef.current = Object.fromEntries(
+        Object.entries(next).map(([peerId, peerStats]) => [peerId, peerStats.sample])
+      );
+      setStats(next);
+    };
+
+    poll();
+    const timer = window.setInterval(poll, intervalMs);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [enabled, intervalMs]);
+
+  return stats;
+}
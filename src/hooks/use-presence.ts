@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { chatService, PresenceState, UsersOnlinePayload } from '@/services/chat';
+import { resolvePresence } from '@/lib/presence';
+
+interface UsePresenceOptions {
+  /** Meeting whose presence is tracked; empty while not in the room. */
+  meetingId: string;
+  /** Whether the local user is connected to the call. */
+  isInCall: boolean;
+  /** Latest online list; seeds the states the server already knows. */
+  usersOnline: UsersOnlinePayload | null;
+}
+
+interface UsePresenceReturn {
+  /** Local user's presence, as published to the room. */
+  localPresence: PresenceState;
+  /** Known presence of other participants, keyed by user id. */
+  presenceByUser: Record<string, PresenceState>;
+}
+
+/**
+ * Presence states (active, away, in call) shared over the chat socket.
+ *
+ * @remarks The local state is derived from the tab visibility and the call connection and
+ * republished on every change. Remote states come from `presence` events; users without one yet
+ * fall back to whatever the online list reports.
+ */
+export function usePresence({ meetingId, isInCall, usersOnline }: UsePresenceOptions): UsePresenceReturn {
+  const [isHidden, setIsHidden] = useState(() => document.visibilityState === 'hidden');
+  const [presenceByUser, setPresenceByUser] = useState<Record<string, PresenceState>>({});
+
+  const localPresence = resolvePresence(isHidden, isInCall);
+
+  useEffect(() => {
+    const handleVisibility = () => setIsHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (meetingId) chatService.setPresence(localPresence);
+  }, [meetingId, localPresence]);
+
+  useEffect(() => {
+    if (!meetingId) {
+      setPresenceByUser({});
+      return;
+    }
+    return chatService.onPresence((payload) => {
+      if (payload.meetingId !== meetingId) return;
+      setPresenceByUser((prev) => ({ ...prev, [payload.userId]: payload.state }));
+    });
+  }, [meetingId]);
+
+  // Sembrar con lo que trae la lista de conectados y olvidar a quien se fue
+  useEffect(() => {
+    if (!usersOnline) return;
+    setPresenceByUser((prev) => {
+      const next: Record<string, PresenceState> = {};
+      usersOnline.users.forEach((online) => {
+        const state = online.presence ?? prev[online.odId];
+        if (state) next[online.odId] = state;
+      });
+      return next;
+    });
+  }, [usersOnline]);
+
+  return { localPresence, presenceByUser };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { chatService, RaisedHand } from '@/services/chat';
+
+interface UseRaisedHandsOptions {
+  /** Meeting identifier whose hand queue is observed; empty while not in the room. */
+  meetingId: string;
+  /** Local user, used to derive `isHandRaised`. */
+  userId: string;
+  /** Called when someone else raises their hand. */
+  onHandRaised?: (hand: RaisedHand) => void;
+}
+
+interface UseRaisedHandsReturn {
+  /** Raised hands in the order they were raised. */
+  hands: RaisedHand[];
+  /** Whether the local user's hand is raised. */
+  isHandRaised: boolean;
+  /** Raises or lowers the local user's hand. */
+  toggleHand: () => void;
+  /** Lowers another participant's hand (host). */
+  lowerHand: (userId: string) => void;
+  /** Lowers every hand (host). */
+  lowerAllHands: () => void;
+}
+
+/**
+ * Raise-hand queue shared over the chat socket.
+ *
+ * @remarks The server owns the queue and broadcasts it in full (`hand:queue`) on every change and
+ * when joining the room; local actions update the list optimistically until that broadcast arrives.
+ *
+ * @example
+ * ```tsx
+ * const { hands, isHandRaised, toggleHand } = useRaisedHands({ meetingId, userId: user.id });
+ * ```
+ */
+export function useRaisedHands({ meetingId, userId, onHandRaised }: UseRaisedHandsOptions): UseRaisedHandsReturn {
+  const [hands, setHands] = useState<RaisedHand[]>([]);
+  const handsRef = useRef<RaisedHand[]>([]);
+
+  useEffect(() => {
+    handsRef.current = hands;
+  }, [hands]);
+
+  useEffect(() => {
+    if (!meetingId) {
+      setHands([]);
+      return;
+    }
+
+    return chatService.onHandQueue((payload) => {
+      if (payload.meetingId !== meetingId) return;
+      payload.hands
+        .filter((hand) => hand.userId !== userId && !handsRef.current.some((h) => h.userId === hand.userId))
+        .forEach((hand) => onHandRaised?.(hand));
+      setHands(payload.hands);
+    });
+  }, [meetingId, userId, onHandRaised]);
+
+  const isHandRaised = hands.some((hand) => hand.userId === userId);
+
+  const toggleHand = useCallback(() => {
+    if (handsRef.current.some((hand) => hand.userId === userId)) {
+      chatService.lowerHand();
+      setHands((prev) => prev.filter((hand) => hand.userId !== userId));
+    } else {
+      chatService.raiseHand();
+      setHands((prev) => [...prev, { userId, raisedAt: new Date().toISOString() }]);
+    }
+  }, [userId]);
+
+  const lowerHand = useCallback((target: string) => {
+    chatService.lowerHand(target);
+    setHands((prev) => prev.filter((hand) => hand.userId !== target));
+  }, []);
+
+  const lowerAllHands = useCallback(() => {
+    chatService.lowerAllHands();
+    setHands([]);
+  }, []);
+
+  return { hands, isHandRaised, toggleHand, lowerHand, lowerAllHands };
+}
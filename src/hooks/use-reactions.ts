@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { chatService, ReactionEmoji, ReactionPayload } from '@/services/chat';
+
+/** How long a reaction stays on screen; matches the `float-up` animation. */
+const REACTION_LIFETIME_MS = 3000;
+
+interface UseReactionsReturn {
+  /** Reactions currently on screen, oldest first. */
+  reactions: ReactionPayload[];
+  /** Sends a reaction to the room and shows it locally. */
+  sendReaction: (emoji: ReactionEmoji) => void;
+}
+
+/**
+ * Transient emoji reactions relayed over the chat socket.
+ * @param meetingId Meeting whose reactions are shown; empty while not in the room.
+ * @remarks Reactions are not persisted: each one is dropped after `REACTION_LIFETIME_MS`.
+ */
+export function useReactions(meetingId: string): UseReactionsReturn {
+  const [reactions, setReactions] = useState<ReactionPayload[]>([]);
+  const timersRef = useRef<Set<number>>(new Set());
+
+  const show = useCallback((reaction: ReactionPayload) => {
+    setReactions((prev) => [...prev, reaction]);
+    const timer = window.setTimeout(() => {
+      timersRef.current.delete(timer);
+      setReactions((prev) => prev.filter((r) => r.reactionId !== reaction.reactionId));
+    }, REACTION_LIFETIME_MS);
+    timersRef.current.add(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!meetingId) return;
+    return chatService.onReaction((payload) => {
+      if (payload.meetingId === meetingId) show(payload);
+    });
+  }, [meetingId, show]);
+
+  // Cancelar temporizadores pendientes al desmontar
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((timer) => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const sendReaction = useCallback(
+    (emoji: ReactionEmoji) => {
+      const sent = chatService.sendReaction(emoji);
+      if (sent) show(sent);
+    },
+    [show]
+  );
+
+  return { reactions, sendReaction };
+}
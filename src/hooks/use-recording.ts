@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { chatService, RecordingPayload } from '@/services/chat';
+import {
+  createMeetingRecorder,
+  downloadRecording,
+  MeetingRecorder,
+  RecordingSource,
+} from '@/lib/meeting-recorder';
+import { getMeetingRole, hasPermission } from '@/lib/meeting-roles';
+import type { Meeting } from '@/store/meetingStore';
+
+/** Who is recording the meeting, shown in the banner. */
+export interface ActiveRecording {
+  userId: string;
+  userName?: string;
+  startedAt: string;
+  /** True when the local user is the one recording. */
+  isLocal: boolean;
+}
+
+interface UseRecordingOptions {
+  /** Meeting being recorded; `null` while not in the room. */
+  meeting: Meeting | null;
+  /** Local user. */
+  userId: string;
+  userName?: string;
+  /** Participants to composite; kept in sync while recording. */
+  sources: RecordingSource[];
+}
+
+interface UseRecordingReturn {
+  /** Recording in progress, local or announced by someone else; `null` when nobody records. */
+  activeRecording: ActiveRecording | null;
+  /** Whether the local user is recording. */
+  isRecording: boolean;
+  /**
+   * Starts a local recording and announces it to the room.
+   * @throws Error when the browser cannot record.
+   */
+  startRecording: () => void;
+  /** Stops the local recording, announces it and downloads the WebM file. */
+  stopRecording: () => Promise<void>;
+}
+
+/**
+ * Client-side meeting recording with a room-wide recording notice.
+ *
+ * @remarks The file is composited and encoded in the recording user's browser and never leaves it.
+ * The notice travels over the chat socket; the server is expected to replay it to late joiners and
+ * to clear it if the recording user disconnects without stopping. Notices are only honoured from a
+ * role with the `record` permission, or from whoever started the recording when it stops. Leaving
+ * the room stops the recording and downloads what was captured.
+ */
+export function useRecording({ meeting, userId, userName, sources }: UseRecordingOptions): UseRecordingReturn {
+  const [localRecording, setLocalRecording] = useState<ActiveRecording | null>(null);
+  const [remoteRecording, setRemoteRecording] = useState<RecordingPayload | null>(null);
+  const recorderRef = useRef<MeetingRecorder | null>(null);
+  const sourcesRef = useRef(sources);
+  const meetingRef = useRef(meeting);
+  const meetingId = meeting?.id ?? '';
+
+  useEffect(() => {
+    sourcesRef.current = sources;
+    recorderRef.current?.setSources(sources);
+  }, [sources]);
+
+  useEffect(() => {
+    meetingRef.current = meeting;
+  }, [meeting]);
+
+  useEffect(() => {
+    if (!meetingId) {
+      setRemoteRecording(null);
+      return;
+    }
+    return chatService.onRecording((payload) => {
+      if (payload.meetingId !== meetingId) return;
+      const canRecord = hasPermission(getMeetingRole(meetingRef.current, payload.userId), 'record');
+      setRemoteRecording((prev) => {
+        if (payload.isRecording) {
+          return canRecord ? { ...payload, startedAt: payload.startedAt ?? new Date().toISOString() } : prev;
+        }
+        // Un aviso por reunión: lo retira quien grababa (aunque ya no sea anfitrión) o quien puede grabar
+        const wasRecording = prev?.meetingId === payload.meetingId && prev.userId === payload.userId;
+        return canRecord || wasRecording ? null : prev;
+      });
+    });
+  }, [meetingId]);
+
+  const startRecording = useCallback(() => {
+    if (recorderRef.current) return;
+    recorderRef.current = createMeetingRecorder(sourcesRef.current);
+    chatService.setRecording(true);
+    setLocalRecording({ userId, userName, startedAt: new Date().toISOString(), isLocal: true });
+  }, [userId, userName]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    chatService.setRecording(false);
+    setLocalRecording(null);
+    const blob = await recorder.stop();
+    if (meetingRef.current && blob.size > 0) downloadRecording(blob, meetingRef.current);
+  }, []);
+
+  // Salir de la sala no debe perder lo grabado
+  useEffect(() => {
+    if (!meetingId) return;
+    return () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorderRef.current = null;
+      chatService.setRecording(false);
+      const meetingToSave = meetingRef.current;
+      void recorder.stop().then((blob) => {
+        if (meetingToSave && blob.size > 0) downloadRecording(blob, meetingToSave);
+      });
+    };
+  }, [meetingId]);
+
+  const activeRecording: ActiveRecording | null =
+    localRecording ??
+    (remoteRecording?.meetingId === meetingId
+      ? {
+          userId: remoteRecording.userId,
+          userName: remoteRecording.userName,
+          startedAt: remoteRecording.startedAt,
+          isLocal: false,
+        }
+      : null);
+
+  return { activeRecording, isRecording: Boolean(localRecording), startRecording, stopRecording };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { chatService } from '@/services/chat';
+import { ROOM_CONVERSATION_ID } from '@/hooks/use-chat';
+
+/**
+ * A remote `typing:start` is dropped after this long without a refresh, in case its
+ * `typing:stop` is lost (disconnection, closed tab).
+ */
+const TYPING_EXPIRY_MS = 6000;
+
+/** Participant currently typing. */
+export interface TypingUser {
+  userId: string;
+  userName: string;
+}
+
+interface UseTypingReturn {
+  /** Participants typing, keyed by conversation (`ROOM_CONVERSATION_ID` or the other user's id). */
+  typingByConversation: Record<string, TypingUser[]>;
+  /** Reports a keystroke; pass the recipient when writing a private message. */
+  notifyTyping: (recipientId?: string) => void;
+  /** Reports that the local user stopped typing. */
+  stopTyping: () => void;
+}
+
+/**
+ * "X is typing…" indicators relayed over the chat socket.
+ * @param meetingId Meeting whose indicators are shown; empty while not in the room.
+ * @param userId Local user; private typing events addressed to someone else are ignored.
+ * @remarks Private typing events are filed under the sender's conversation. The server forwards them
+ * only to the recipient; any addressed to someone else is dropped anyway. Outgoing events are
+ * throttled by {@link chatService.notifyTyping}.
+ */
+export function useTyping(meetingId: string, userId: string): UseTypingReturn {
+  const [typingByConversation, setTypingByConversation] = useState<Record<string, TypingUser[]>>({});
+  const timersRef = useRef<Map<string, number>>(new Map());
+
+  const remove = useCallback((conversationId: string, userId: string) => {
+    setTypingByConversation((prev) => {
+      const users = prev[conversationId];
+      if (!users?.some((u) => u.userId === userId)) return prev;
+      return { ...prev, [conversationId]: users.filter((u) => u.userId !== userId) };
+    });
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    if (!meetingId) {
+      setTypingByConversation({});
+      return;
+    }
+
+    const unsubscribe = chatService.onTyping((payload) => {
+      if (payload.meetingId !== meetingId) return;
+      if (payload.recipientId && payload.recipientId !== userId) return;
+      const conversationId = payload.recipientId ? payload.userId : ROOM_CONVERSATION_ID;
+      const key = `${conversationId}:${payload.userId}`;
+      window.clearTimeout(timers.get(key));
+      timers.delete(key);
+
+      if (!payload.isTyping) {
+        remove(conversationId, payload.userId);
+        return;
+      }
+
+      setTypingByConversation((prev) => {
+        const users = prev[conversationId] ?? [];
+        if (users.some((u) => u.userId === payload.userId)) return prev;
+        const user = { userId: payload.userId, userName: payload.userName ?? 'Participante' };
+        return { ...prev, [conversationId]: [...users, user] };
+      });
+      timers.set(
+        key,
+        window.setTimeout(() => {
+          timers.delete(key);
+          remove(conversationId, payload.userId);
+        }, TYPING_EXPIRY_MS)
+      );
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => window.clearTimeout(timer));
+      timers.clear();
+      chatService.stopTyping();
+    };
+  }, [meetingId, userId, remove]);
+
+  const notifyTyping = useCallback((recipientId?: string) => chatService.notifyTyping(recipientId), []);
+  const stopTyping = useCallback(() => chatService.stopTyping(), []);
+
+  return { typingByConversation, notifyTyping, stopTyping };
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AdmissionState, chatService, LobbyEntry } from '@/services/chat';
+
+interface UseWaitingRoomOptions {
+  /** Meeting identifier whose lobby is observed. */
+  meetingId: string;
+  /** Whether the local user must wait for the host before joining. */
+  requiresAdmission: boolean;
+  /** Called when a new user enters the lobby (host side). */
+  onParticipantWaiting?: (entry: LobbyEntry) => void;
+}
+
+interface UseWaitingRoomReturn {
+  /** Admission state of the local user; `admitted` when no admission is required. */
+  admissionState: AdmissionState;
+  /** Users currently waiting to be admitted (only populated for hosts). */
+  queue: LobbyEntry[];
+  /** Admits a waiting user. */
+  admit: (userId: string) => void;
+  /** Rejects a waiting user. */
+  deny: (userId: string) => void;
+  /** Admits every waiting user. */
+  admitAll: () => void;
+}
+
+/**
+ * Waiting-room hook: requests admission for joiners and exposes the lobby queue to hosts.
+ *
+ * @remarks When `requiresAdmission` is true it opens the chat socket in waiting-room mode
+ * (`lobby:join`); the same socket joins the room once the host admits the user. Leaving before
+ * being admitted, or after being denied, closes that socket (emitting `lobby:leave` while still
+ * waiting), so the user drops out of the host's queue and a later visit asks for admission again.
+ * Queue updates and admit/deny actions are signalled over the chat Socket.IO connection.
+ *
+ * @example
+ * ```tsx
+ * const { admissionState, queue, admit } = useWaitingRoom({
+ *   meetingId: meeting.id,
+ *   requiresAdmission: meeting.settings?.waitingRoom && !isHost,
+ * });
+ * ```
+ */
+export function useWaitingRoom({
+  meetingId,
+  requiresAdmission,
+  onParticipantWaiting,
+}: UseWaitingRoomOptions): UseWaitingRoomReturn {
+  const [admissionState, setAdmissionState] = useState<AdmissionState>(
+    chatService.getAdmissionState()
+  );
+  const [queue, setQueue] = useState<LobbyEntry[]>([]);
+  const queueRef = useRef<LobbyEntry[]>([]);
+
+  useEffect(() => {
+    queueRef.current = queue;
+  }, [queue]);
+
+  // Solicitar admisión abriendo el socket de chat en modo sala de espera
+  useEffect(() => {
+    if (!meetingId || !requiresAdmission) return;
+
+    const unsubAdmission = chatService.onAdmissionStateChange(setAdmissionState);
+    chatService.connect(meetingId, { waitingRoom: true });
+    setAdmissionState(chatService.getAdmissionState());
+
+    return () => {
+      unsubAdmission();
+      // Al salir sin ser admitido: dejar la cola del host y empezar de cero si se vuelve a entrar
+      if (chatService.getAdmissionState() !== 'admitted') {
+        chatService.disconnect();
+        setAdmissionState('idle');
+      }
+    };
+  }, [meetingId, requiresAdmission]);
+
+  // Escuchar la cola de espera (el servidor solo la envía a hosts)
+  useEffect(() => {
+    if (!meetingId) return;
+
+    return chatService.onLobbyQueue((payload) => {
+      if (payload.meetingId !== meetingId) return;
+      payload.entries
+        .filter((entry) => !queueRef.current.some((p) => p.userId === entry.userId))
+        .forEach((entry) => onParticipantWaiting?.(entry));
+      setQueue(payload.entries);
+    });
+  }, [meetingId, onParticipantWaiting]);
+
+  const removeFromQueue = useCallback((userId: string) => {
+    setQueue((prev) => prev.filter((entry) => entry.userId !== userId));
+  }, []);
+
+  const admit = useCallback((userId: string) => {
+    chatService.admitParticipant(userId);
+    removeFromQueue(userId);
+  }, [removeFromQueue]);
+
+  const deny = useCallback((userId: string) => {
+    chatService.denyParticipant(userId);
+    removeFromQueue(userId);
+  }, [removeFromQueue]);
+
+  const admitAll = useCallback(() => {
+    chatService.admitAllParticipants();
+    setQueue([]);
+  }, []);
+
+  return {
+    admissionState: requiresAdmission ? admissionState : 'admitted',
+    queue,
+    admit,
+    deny,
+    admitAll,
+  };
+}
@@ -17,6 +17,13 @@ export interface ApiError {
 
 let refreshPromise: Promise<boolean> | null = null;
 
+/**
+ * Origin the API is served from; the page's own origin when `VITE_API_URL` is a relative path.
+ */
+export function getApiOrigin(): string {
+  return new URL(API_BASE_URL, window.location.origin).origin;
+}
+
 async function parseResponse<T>(response: Response): Promise<T> {
   const contentLength = response.headers.get('content-length');
   if (response.status === 204 || contentLength === '0') {
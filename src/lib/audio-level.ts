@@ -0,0 +1,40 @@
+/**
+ * Live audio level reader attached to a `MediaStream`.
+ */
+export interface AudioLevelMeter {
+  /** Returns the current RMS level in the 0..1 range. */
+  getLevel: () => number;
+  /** Disconnects the WebAudio nodes; the stream tracks are left untouched. */
+  disconnect: () => void;
+}
+
+/**
+ * Creates an `AnalyserNode`-based level meter for the audio tracks of a stream.
+ * @param context Shared `AudioContext`; callers own its lifecycle.
+ * @param stream Stream with at least one audio track.
+ * @remarks The analyser is not connected to the destination, so nothing is played back.
+ */
+export function createAudioLevelMeter(context: AudioContext, stream: MediaStream): AudioLevelMeter {
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.3;
+  source.connect(analyser);
+
+  const buffer = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        sum += buffer[i] * buffer[i];
+      }
+      return Math.sqrt(sum / buffer.length);
+    },
+    disconnect: () => {
+      source.disconnect();
+      analyser.disconnect();
+    },
+  };
+}
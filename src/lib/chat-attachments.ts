@@ -0,0 +1,67 @@
+import { getApiOrigin } from '@/lib/api-client';
+import type { ChatAttachment } from '@/services/meetings';
+
+/** Largest file accepted in the chat, in bytes. */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/** Files that can be attached to a single message. */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Human-readable file size, e.g. `1,5 MB`.
+ * @param bytes Size in bytes.
+ */
+export function formatFileSize(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1;
+  return `${value.toLocaleString('es', { maximumFractionDigits: digits })} ${SIZE_UNITS[unit]}`;
+}
+
+/**
+ * Whether an attachment can be previewed inline as an image.
+ */
+export function isImageAttachment(attachment: Pick<ChatAttachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * Whether an attachment URL may be linked or embedded: only http(s) URLs on the API origin, where
+ * `uploadChatAttachment` stores files. The URL travels inside the sender's message, so anything else
+ * is shown as plain text.
+ */
+export function isTrustedAttachmentUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const parsed = new URL(url, window.location.origin);
+    return ['http:', 'https:'].includes(parsed.protocol) && parsed.origin === getApiOrigin();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short type label for file cards: the extension when there is one, otherwise the MIME subtype.
+ */
+export function getFileTypeLabel(attachment: Pick<ChatAttachment, 'fileName' | 'mimeType'>): string {
+  const extension = attachment.fileName.includes('.') ? attachment.fileName.split('.').pop() : '';
+  return (extension || attachment.mimeType.split('/').pop() || 'archivo').toUpperCase();
+}
+
+/**
+ * Checks a file before uploading it.
+ * @returns A message for the user when the file is rejected, `null` when it can be uploaded.
+ */
+export function validateAttachment(file: File): string | null {
+  if (file.size === 0) return `${file.name} está vacío`;
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} supera el máximo de ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+}
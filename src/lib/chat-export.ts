@@ -0,0 +1,189 @@
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ChatHistoryCursor, ChatMessage, fetchMeetingMessages } from '@/services/meetings';
+import type { Meeting } from '@/store/meetingStore';
+import { isTrustedAttachmentUrl } from './chat-attachments';
+import { getMessagePreview } from './chat-markdown';
+import { canSeeMessage } from './chat-visibility';
+
+/** File formats offered when exporting a chat transcript. */
+export type ChatExportFormat = 'txt' | 'md' | 'json';
+
+/** Spanish labels for each export format. */
+export const CHAT_EXPORT_LABELS: Record<ChatExportFormat, string> = {
+  txt: 'Texto (.txt)',
+  md: 'Markdown (.md)',
+  json: 'JSON (.json)',
+};
+
+const MIME_TYPES: Record<ChatExportFormat, string> = {
+  txt: 'text/plain;charset=utf-8',
+  md: 'text/markdown;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+};
+
+/** Page size used to walk the whole history. */
+const EXPORT_PAGE_SIZE = 200;
+
+const LOCAL_TIME_FORMAT = 'dd/MM/yyyy HH:mm:ss';
+
+interface TranscriptMeta {
+  meeting: Meeting;
+  exportedAt: Date;
+  timeZone: string;
+}
+
+/**
+ * Fetches every message of a meeting that a user may see, following the `before` cursor page by page.
+ * @param meetingId Meeting whose history is exported.
+ * @param userId User exporting; private messages they neither sent nor received are dropped.
+ * @returns Messages oldest first, without duplicates.
+ */
+export async function fetchFullChatHistory(meetingId: string, userId: string): Promise<ChatMessage[]> {
+  const seen = new Set<string>();
+  let messages: ChatMessage[] = [];
+  let before: ChatHistoryCursor | undefined;
+
+  for (;;) {
+    const page = await fetchMeetingMessages(meetingId, EXPORT_PAGE_SIZE, before);
+    const fresh = page.filter((m) => !seen.has(m.messageId));
+    fresh.forEach((m) => seen.add(m.messageId));
+    messages = [...fresh, ...messages];
+    // Una página corta (o sin mensajes nuevos) marca el inicio de la conversación
+    if (page.length < EXPORT_PAGE_SIZE || fresh.length === 0) break;
+    before = { timestamp: page[0].timestamp, messageId: page[0].messageId };
+  }
+
+  return messages.filter((m) => canSeeMessage(m, userId));
+}
+
+function toLocalTime(timestamp: string): string {
+  const date = parseISO(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : format(date, LOCAL_TIME_FORMAT, { locale: es });
+}
+
+function getAuthor(message: ChatMessage): string {
+  const author = message.userName ?? 'Usuario';
+  return message.recipientId ? `${author} → ${message.recipientName ?? 'participante'} (privado)` : author;
+}
+
+function getBody(message: ChatMessage): string {
+  return message.deletedAt ? '[Mensaje eliminado]' : message.message;
+}
+
+function getHeaderLines({ meeting, exportedAt, timeZone }: TranscriptMeta, count: number): [string, string][] {
+  return [
+    ['Reunión', meeting.name],
+    ['Código', meeting.code],
+    ['Fecha', `${meeting.date} ${meeting.startTime} - ${meeting.endTime}`],
+    ['Exportado', `${format(exportedAt, LOCAL_TIME_FORMAT, { locale: es })} (${timeZone})`],
+    ['Mensajes', String(count)],
+  ];
+}
+
+function buildText(messages: ChatMessage[], meta: TranscriptMeta, byId: Map<string, ChatMessage>): string {
+  const header = getHeaderLines(meta, messages.length).map(([label, value]) => `${label}: ${value}`);
+  const body = messages.map((message) => {
+    const lines = [`[${toLocalTime(message.timestamp)}] ${getAuthor(message)}: ${getBody(message)}`];
+    if (message.parentMessageId) {
+      const parent = byId.get(message.parentMessageId);
+      lines.push(`    ↳ En respuesta a ${parent?.userName ?? 'Usuario'}: ${getMessagePreview(parent)}`);
+    }
+    if (message.editedAt && !message.deletedAt) lines.push('    (editado)');
+    if (!message.deletedAt) {
+      message.attachments?.forEach((a) => lines.push(`    📎 ${a.fileName} (${a.url})`));
+    }
+    return lines.join('\n');
+  });
+
+  return [`Transcripción del chat`, ...header, '-'.repeat(40), ...body, ''].join('\n');
+}
+
+function buildMarkdown(messages: ChatMessage[], meta: TranscriptMeta, byId: Map<string, ChatMessage>): string {
+  const header = getHeaderLines(meta, messages.length).map(([label, value]) => `- **${label}:** ${value}`);
+  const body = messages.map((message) => {
+    const lines = [`**${getAuthor(message)}** · _${toLocalTime(message.timestamp)}_`];
+    if (message.parentMessageId) {
+      const parent = byId.get(message.parentMessageId);
+      lines.push(`> ${parent?.userName ?? 'Usuario'}: ${getMessagePreview(parent)}`, '');
+    }
+    lines.push(message.deletedAt ? '_Mensaje eliminado_' : message.message);
+    if (message.editedAt && !message.deletedAt) lines.push('_(editado)_');
+    if (!message.deletedAt) {
+      message.attachments?.forEach((a) =>
+        lines.push(isTrustedAttachmentUrl(a.url) ? `- 📎 [${a.fileName}](${a.url})` : `- 📎 ${a.fileName}`)
+      );
+    }
+    return lines.join('\n');
+  });
+
+  return [`# Chat: ${meta.meeting.name}`, '', ...header, '', '---', '', body.join('\n\n'), ''].join('\n');
+}
+
+function buildJson(messages: ChatMessage[], { meeting, exportedAt, timeZone }: TranscriptMeta): string {
+  return JSON.stringify(
+    {
+      meeting: {
+        id: meeting.id,
+        name: meeting.name,
+        code: meeting.code,
+        date: meeting.date,
+        startTime: meeting.startTime,
+        endTime: meeting.endTime,
+      },
+      exportedAt: exportedAt.toISOString(),
+      timeZone,
+      messages: messages.map((message) => ({ ...message, localTime: toLocalTime(message.timestamp) })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Renders a chat transcript with a meeting metadata header.
+ * @param messages Messages oldest first.
+ * @param meeting Meeting the messages belong to.
+ * @param exportFormat Output format; timestamps are shown in the browser's time zone.
+ */
+export function buildChatTranscript(messages: ChatMessage[], meeting: Meeting, exportFormat: ChatExportFormat): string {
+  const meta: TranscriptMeta = {
+    meeting,
+    exportedAt: new Date(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+  const byId = new Map(messages.map((m) => [m.messageId, m]));
+
+  if (exportFormat === 'json') return buildJson(messages, meta);
+  return exportFormat === 'md' ? buildMarkdown(messages, meta, byId) : buildText(messages, meta, byId);
+}
+
+function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Dar tiempo al navegador a iniciar la descarga antes de liberar el blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Downloads the full chat of a meeting, as a given user may see it, as a transcript file.
+ * @param meeting Meeting to export.
+ * @param userId User exporting; only their own private conversations are included.
+ * @param exportFormat `txt`, `md` or `json`.
+ * @returns Number of exported messages.
+ * @throws ApiError when the history cannot be fetched.
+ */
+export async function exportChatTranscript(
+  meeting: Meeting,
+  userId: string,
+  exportFormat: ChatExportFormat
+): Promise<number> {
+  const messages = await fetchFullChatHistory(meeting.id, userId);
+  const content = buildChatTranscript(messages, meeting, exportFormat);
+  const slug = (meeting.code || meeting.id).replace(/[^\w-]+/g, '_');
+  downloadFile(content, `chat-${slug}-${format(new Date(), 'yyyyMMdd-HHmm')}.${exportFormat}`, MIME_TYPES[exportFormat]);
+  return messages.length;
+}
@@ -0,0 +1,178 @@
+import type { ChatMention, ChatMessage } from '@/services/meetings';
+
+/** Inline pieces of a chat message. */
+export type ChatInlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: ChatInlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; userId: string; text: string };
+
+/** Block-level pieces of a chat message. */
+export type ChatBlockNode =
+  | { type: 'paragraph'; children: ChatInlineNode[] }
+  | { type: 'list'; ordered: boolean; items: ChatInlineNode[][] }
+  | { type: 'codeBlock'; text: string };
+
+const FENCE = /^\s*```/;
+const BULLET_ITEM = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const CODE_OR_BOLD = /`([^`\n]+)`|\*\*([^*\n]+?)\*\*/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+/** Characters of a message shown in quoted previews. */
+const PREVIEW_LENGTH = 80;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildMentionPattern(mentions: ChatMention[]): RegExp | null {
+  const names = mentions
+    .map((mention) => mention.userName)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  // Sin letras ni dígitos a continuación: `@Ana` no debe marcarse dentro de `@Anabel`
+  return names.length > 0 ? new RegExp(`@(${names.join('|')})(?![\\p{L}\\p{N}])`, 'gu') : null;
+}
+
+function parseMentions(text: string, mentions: ChatMention[]): ChatInlineNode[] {
+  const pattern = buildMentionPattern(mentions);
+  if (!pattern) return text ? [{ type: 'text', text }] : [];
+
+  const nodes: ChatInlineNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    const mention = mentions.find((m) => m.userName === match[1]);
+    nodes.push({ type: 'mention', userId: mention?.userId ?? '', text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+}
+
+function parseLinksAndMentions(text: string, mentions: ChatMention[]): ChatInlineNode[] {
+  const nodes: ChatInlineNode[] = [];
+  const pattern = new RegExp(URL_PATTERN.source, URL_PATTERN.flags);
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    // La puntuación final suele cerrar la frase, no forma parte del enlace
+    const url = match[0].replace(TRAILING_PUNCTUATION, '');
+    if (match.index > last) nodes.push(...parseMentions(text.slice(last, match.index), mentions));
+    nodes.push({ type: 'link', href: url.startsWith('www.') ? `https://${url}` : url, text: url });
+    last = match.index + url.length;
+    pattern.lastIndex = last;
+  }
+  if (last < text.length) nodes.push(...parseMentions(text.slice(last), mentions));
+  return nodes;
+}
+
+function parseInline(text: string, mentions: ChatMention[]): ChatInlineNode[] {
+  const nodes: ChatInlineNode[] = [];
+  const pattern = new RegExp(CODE_OR_BOLD.source, CODE_OR_BOLD.flags);
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) nodes.push(...parseLinksAndMentions(text.slice(last, match.index), mentions));
+    if (match[1] !== undefined) {
+      nodes.push({ type: 'code', text: match[1] });
+    } else {
+      nodes.push({ type: 'bold', children: parseLinksAndMentions(match[2], mentions) });
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push(...parseLinksAndMentions(text.slice(last), mentions));
+  return nodes;
+}
+
+/**
+ * Parses the markdown subset supported by the chat: `**bold**`, `` `code` ``, fenced code blocks,
+ * bulleted and numbered lists, auto-linked URLs and `@mentions`.
+ * @param text Raw message text.
+ * @param mentions Users mentioned in the message; only their `@name` is highlighted.
+ * @returns Block nodes to render; no HTML is ever produced, so the output is safe to render as text.
+ */
+export function parseChatMarkdown(text: string, mentions: ChatMention[] = []): ChatBlockNode[] {
+  const blocks: ChatBlockNode[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), mentions) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'codeBlock', text: code.join('\n') });
+      continue;
+    }
+
+    const bullet = BULLET_ITEM.exec(line);
+    const ordered = bullet ? null : ORDERED_ITEM.exec(line);
+    if (bullet || ordered) {
+      flushParagraph();
+      const isOrdered = Boolean(ordered);
+      const previous = blocks[blocks.length - 1];
+      const item = parseInline((bullet ?? ordered)[1], mentions);
+      if (previous?.type === 'list' && previous.ordered === isOrdered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/**
+ * Finds which participants a message mentions by looking for `@name` in its text.
+ * @param text Message about to be sent.
+ * @param participants Candidates, usually the users online in the room.
+ */
+export function findMentions(text: string, participants: ChatMention[]): ChatMention[] {
+  const pattern = buildMentionPattern(participants);
+  if (!pattern) return [];
+
+  // La alternancia prueba primero los nombres largos: `@Ana María` no menciona también a `Ana`
+  const names = new Set<string>();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) names.add(match[1]);
+  return participants.filter((participant) => names.has(participant.userName));
+}
+
+/**
+ * Short one-line preview of a message for quotes and the reply bar.
+ * @param message Message to preview; `null` when it is not loaded (e.g. older than the history).
+ */
+export function getMessagePreview(message: ChatMessage | null | undefined): string {
+  if (!message) return 'Mensaje no disponible';
+  if (message.deletedAt) return 'Mensaje eliminado';
+  const text = message.message.replace(/\s+/g, ' ').trim();
+  if (!text && message.attachments?.length) return `📎 ${message.attachments.map((a) => a.fileName).join(', ')}`;
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
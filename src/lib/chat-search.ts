@@ -0,0 +1,93 @@
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import type { ChatMessage, ChatSearchQuery } from '@/services/meetings';
+
+/** Filters typed in the chat search bar. */
+export interface ChatSearchFilters {
+  text: string;
+  /** Only messages from this user; `null` for anyone. */
+  authorId: string | null;
+  /** First day included, as `yyyy-MM-dd` (empty for no limit). */
+  from: string;
+  /** Last day included, as `yyyy-MM-dd` (empty for no limit). */
+  to: string;
+}
+
+export const EMPTY_CHAT_SEARCH: ChatSearchFilters = { text: '', authorId: null, from: '', to: '' };
+
+/** Piece of text split around search matches. */
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Lowercases and strips accents so `canción` matches `cancion`, keeping the string length so match
+ * indexes still point into the original text.
+ */
+export function foldText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+      return folded.length === char.length ? folded : char;
+    })
+    .join('');
+}
+
+/**
+ * Whether any filter is set.
+ */
+export function isChatSearchActive(filters: ChatSearchFilters): boolean {
+  return Boolean(filters.text.trim() || filters.authorId || filters.from || filters.to);
+}
+
+/**
+ * Checks a message against the search filters; deleted messages never match a text search.
+ */
+export function matchesChatSearch(message: ChatMessage, filters: ChatSearchFilters): boolean {
+  if (filters.authorId && message.userId !== filters.authorId) return false;
+
+  const sentAt = parseISO(message.timestamp);
+  if (filters.from && sentAt < startOfDay(parseISO(filters.from))) return false;
+  if (filters.to && sentAt > endOfDay(parseISO(filters.to))) return false;
+
+  const text = foldText(filters.text.trim());
+  if (!text) return true;
+  if (message.deletedAt) return false;
+  const haystack = [message.message, ...(message.attachments ?? []).map((a) => a.fileName)].join('\n');
+  return foldText(haystack).includes(text);
+}
+
+/**
+ * Converts the search bar filters into a backend query; day limits become local-time instants.
+ */
+export function toChatSearchQuery(filters: ChatSearchFilters): ChatSearchQuery {
+  return {
+    text: filters.text.trim() || undefined,
+    authorId: filters.authorId ?? undefined,
+    from: filters.from ? startOfDay(parseISO(filters.from)).toISOString() : undefined,
+    to: filters.to ? endOfDay(parseISO(filters.to)).toISOString() : undefined,
+  };
+}
+
+/**
+ * Splits `text` into matching and non-matching parts for highlighting.
+ * @param text Text to render.
+ * @param query Search text; matching ignores case and accents.
+ */
+export function splitHighlights(text: string, query: string): HighlightPart[] {
+  const needle = foldText(query.trim());
+  if (!needle) return [{ text, match: false }];
+
+  const haystack = foldText(text);
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    if (index > last) parts.push({ text: text.slice(last, index), match: false });
+    parts.push({ text: text.slice(index, index + needle.length), match: true });
+    last = index + needle.length;
+    index = haystack.indexOf(needle, last);
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
@@ -0,0 +1,11 @@
+import type { ChatMessage } from '@/services/meetings';
+
+/**
+ * Whether a user may see a message: room messages, and private ones they sent or received.
+ * @remarks Keeping private messages private is the server's job, which sends them on `chat:private`
+ * to their two participants and filters history and search by requester. This check keeps them out
+ * of anything rendered or exported on the client in case a server lets one through.
+ */
+export function canSeeMessage(message: ChatMessage, userId: string): boolean {
+  return !message.recipientId || message.userId === userId || message.recipientId === userId;
+}
@@ -0,0 +1,38 @@
+/**
+ * Whether the browser exposes the Notifications API.
+ */
+export function isDesktopNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Asks for permission to show browser notifications.
+ * @returns The resulting permission; `denied` when the API is not available.
+ */
+export async function requestDesktopNotificationPermission(): Promise<NotificationPermission> {
+  if (!isDesktopNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+interface DesktopNotificationOptions {
+  body?: string;
+  /** Notifications sharing a tag replace each other instead of piling up. */
+  tag?: string;
+  /** Runs after focusing the tab when the notification is clicked. */
+  onClick?: () => void;
+}
+
+/**
+ * Shows a browser notification when permission was granted; otherwise does nothing.
+ */
+export function showDesktopNotification(title: string, { body, tag, onClick }: DesktopNotificationOptions = {}): void {
+  if (!isDesktopNotificationSupported() || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(title, { body, tag, icon: '/favicon.svg' });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    onClick?.();
+  };
+}
@@ -0,0 +1,248 @@
+import { format } from 'date-fns';
+import type { Meeting } from '@/store/meetingStore';
+
+/** Size of the composited video; tiles are laid out inside it. */
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+const TILE_GAP = 8;
+/** MediaRecorder emits a chunk this often, so a crash loses at most this much. */
+const CHUNK_INTERVAL_MS = 1000;
+/** Preferred containers, best first; the browser picks the first one it supports. */
+const MIME_TYPE_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/** A participant to include in the recording. */
+export interface RecordingSource {
+  /** Stable id (`local` or the peer id). */
+  id: string;
+  /** Name drawn on the tile. */
+  name: string;
+  /** Stream whose video is drawn; its audio is mixed in unless `audioStream` is given. */
+  stream: MediaStream | null;
+  /** Separate audio, e.g. the microphone while the video is a screen capture. */
+  audioStream?: MediaStream | null;
+  /** When false the tile shows the name instead of the (black) video. */
+  isVideoOn: boolean;
+}
+
+/**
+ * Recording of a composited meeting in progress.
+ */
+export interface MeetingRecorder {
+  /** Replaces the set of participants; joins and leaves are picked up live. */
+  setSources: (sources: RecordingSource[]) => void;
+  /** Stops recording and releases canvas, video elements and WebAudio nodes. */
+  stop: () => Promise<Blob>;
+}
+
+interface TrackedSource {
+  source: RecordingSource;
+  video: HTMLVideoElement;
+  audioNode: MediaStreamAudioSourceNode | null;
+  audioTrackId: string | null;
+}
+
+/**
+ * Whether this browser can composite and record a meeting.
+ */
+export function isRecordingSupported(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    typeof AudioContext !== 'undefined'
+  );
+}
+
+function pickMimeType(): string {
+  return MIME_TYPE_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+function getAudioSource(source: RecordingSource): MediaStream | null {
+  return source.audioStream ?? source.stream;
+}
+
+/**
+ * Draws `video` into the given box, cropped to fill it (like `object-fit: cover`).
+ */
+function drawCover(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, x: number, y: number, w: number, h: number) {
+  const scale = Math.max(w / video.videoWidth, h / video.videoHeight);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(video, (video.videoWidth - sw) / 2, (video.videoHeight - sh) / 2, sw, sh, x, y, w, h);
+}
+
+function drawTile(ctx: CanvasRenderingContext2D, tracked: TrackedSource, x: number, y: number, w: number, h: number) {
+  const { source, video } = tracked;
+  ctx.fillStyle = '#18181b';
+  ctx.fillRect(x, y, w, h);
+
+  const hasFrame = source.isVideoOn && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+  if (hasFrame) {
+    drawCover(ctx, video, x, y, w, h);
+  } else {
+    // Sin video: inicial del nombre centrada, como en la galería
+    const radius = Math.min(w, h) / 6;
+    ctx.fillStyle = '#3f3f46';
+    ctx.beginPath();
+    ctx.arc(x + w / 2, y + h / 2, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#fafafa';
+    ctx.font = `600 ${Math.round(radius)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(source.name.charAt(0).toUpperCase(), x + w / 2, y + h / 2);
+  }
+
+  ctx.font = '500 16px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+  const labelWidth = ctx.measureText(source.name).width + 16;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x + 8, y + h - 34, labelWidth, 26);
+  ctx.fillStyle = '#fafafa';
+  ctx.fillText(source.name, x + 16, y + h - 13);
+}
+
+/**
+ * Starts recording the given participants as a single WebM file.
+ * @param initialSources Participants on screen when recording starts.
+ * @throws Error when the browser lacks `MediaRecorder`/canvas capture (check {@link isRecordingSupported}).
+ * @remarks Video is tiled on a canvas in a near-square grid and audio is mixed through WebAudio,
+ * never reaching the speakers. Frames are drawn on a timer rather than `requestAnimationFrame` so the
+ * recording keeps going while the tab is in the background, although browsers may slow it down there.
+ */
+export function createMeetingRecorder(initialSources: RecordingSource[]): MeetingRecorder {
+  if (!isRecordingSupported()) {
+    throw new Error('Este navegador no permite grabar la reunión');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const tracked = new Map<string, TrackedSource>();
+
+  const connectAudio = (entry: TrackedSource) => {
+    const stream = getAudioSource(entry.source);
+    const track = stream?.getAudioTracks()[0] ?? null;
+    if ((track?.id ?? null) === entry.audioTrackId) return;
+
+    entry.audioNode?.disconnect();
+    entry.audioNode = null;
+    entry.audioTrackId = track?.id ?? null;
+    if (track) {
+      entry.audioNode = audioContext.createMediaStreamSource(new MediaStream([track]));
+      entry.audioNode.connect(destination);
+    }
+  };
+
+  const release = (entry: TrackedSource) => {
+    entry.audioNode?.disconnect();
+    entry.video.pause();
+    entry.video.srcObject = null;
+  };
+
+  const setSources = (sources: RecordingSource[]) => {
+    tracked.forEach((entry, id) => {
+      if (sources.some((source) => source.id === id)) return;
+      release(entry);
+      tracked.delete(id);
+    });
+
+    sources.forEach((source) => {
+      let entry = tracked.get(source.id);
+      if (!entry) {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        entry = { source, video, audioNode: null, audioTrackId: null };
+        tracked.set(source.id, entry);
+      }
+      entry.source = source;
+      if (entry.video.srcObject !== source.stream) {
+        entry.video.srcObject = source.stream;
+        // play() rechaza si el stream se reemplaza antes de arrancar; el siguiente cambio lo reintenta
+        if (source.stream) entry.video.play().catch(() => undefined);
+      }
+      connectAudio(entry);
+    });
+  };
+
+  const draw = () => {
+    if (!ctx) return;
+    ctx.fillStyle = '#09090b';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const entries = Array.from(tracked.values());
+    if (entries.length === 0) return;
+    const cols = Math.ceil(Math.sqrt(entries.length));
+    const rows = Math.ceil(entries.length / cols);
+    const tileWidth = (CANVAS_WIDTH - TILE_GAP * (cols + 1)) / cols;
+    const tileHeight = (CANVAS_HEIGHT - TILE_GAP * (rows + 1)) / rows;
+
+    entries.forEach((entry, index) => {
+      const row = Math.floor(index / cols);
+      // Centrar la última fila cuando queda incompleta
+      const inRow = row === rows - 1 ? entries.length - row * cols : cols;
+      const offset = ((cols - inRow) * (tileWidth + TILE_GAP)) / 2;
+      const x = TILE_GAP + offset + (index % cols) * (tileWidth + TILE_GAP);
+      const y = TILE_GAP + row * (tileHeight + TILE_GAP);
+      drawTile(ctx, entry, x, y, tileWidth, tileHeight);
+    });
+  };
+
+  setSources(initialSources);
+  draw();
+  const drawTimer = window.setInterval(draw, 1000 / FRAME_RATE);
+
+  const canvasStream = canvas.captureStream(FRAME_RATE);
+  const output = new MediaStream([...canvasStream.getVideoTracks(), ...destination.stream.getAudioTracks()]);
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(output, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(CHUNK_INTERVAL_MS);
+
+  const cleanup = () => {
+    window.clearInterval(drawTimer);
+    tracked.forEach(release);
+    tracked.clear();
+    output.getTracks().forEach((track) => track.stop());
+    void audioContext.close();
+  };
+
+  let stopped: Promise<Blob> | null = null;
+  const stop = () => {
+    if (!stopped) {
+      stopped = new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          cleanup();
+          resolve(new Blob(chunks, { type: mimeType || 'video/webm' }));
+        };
+        if (recorder.state === 'inactive') recorder.onstop(new Event('stop'));
+        else recorder.stop();
+      });
+    }
+    return stopped;
+  };
+
+  return { setSources, stop };
+}
+
+/**
+ * Downloads a finished recording as `grabacion-<code>-<date>.webm`.
+ */
+export function downloadRecording(blob: Blob, meeting: Meeting): void {
+  const slug = (meeting.code || meeting.id).replace(/[^\w-]+/g, '_');
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `grabacion-${slug}-${format(new Date(), 'yyyyMMdd-HHmm')}.webm`;
+  link.click();
+  // Dar tiempo al navegador a iniciar la descarga antes de liberar el blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,58 @@
+import type { Meeting, MeetingRole } from '@/store/meetingStore';
+
+/** Actions gated by the user's role in a meeting. */
+export type MeetingPermission =
+  | 'moderate' // silenciar, expulsar y admitir desde la sala de espera
+  | 'manageSettings' // cambiar la configuración de la reunión
+  | 'manageRoles' // promover, degradar y transferir el rol de anfitrión
+  | 'shareScreen'
+  | 'publishMedia' // enviar cámara y micrófono
+  | 'exportChat' // descargar la transcripción del chat
+  | 'record'; // grabar la reunión en el navegador
+
+const ROLE_PERMISSIONS: Record<MeetingRole, MeetingPermission[]> = {
+  host: ['moderate', 'manageSettings', 'manageRoles', 'shareScreen', 'publishMedia', 'exportChat', 'record'],
+  cohost: ['moderate', 'manageSettings', 'shareScreen', 'publishMedia', 'exportChat'],
+  participant: ['shareScreen', 'publishMedia'],
+  viewer: [],
+};
+
+/** Spanish labels for each role. */
+export const ROLE_LABELS: Record<MeetingRole, string> = {
+  host: 'Anfitrión',
+  cohost: 'Coanfitrión',
+  participant: 'Participante',
+  viewer: 'Espectador',
+};
+
+/** Roles a host can assign from the participants panel. */
+export const ASSIGNABLE_ROLES: Exclude<MeetingRole, 'host'>[] = ['cohost', 'participant', 'viewer'];
+
+/**
+ * Resolves a user's role in a meeting.
+ * @param meeting Meeting with `hostUid` and optional `roles`.
+ * @param userId User to resolve.
+ * @returns `host` for `hostUid`, the explicit role when listed, otherwise `participant`.
+ */
+export function getMeetingRole(meeting: Meeting | null, userId: string | undefined): MeetingRole {
+  if (!meeting || !userId) return 'participant';
+  if (meeting.hostUid ? meeting.hostUid === userId : meeting.createdBy === userId) return 'host';
+  const role = meeting.roles?.[userId];
+  return role && role !== 'host' ? role : 'participant';
+}
+
+/**
+ * Checks whether a role grants a permission.
+ */
+export function hasPermission(role: MeetingRole, permission: MeetingPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Checks whether `actor` may moderate or change the role of `target`.
+ * @remarks Nobody moderates the host, and co-hosts cannot act on other co-hosts.
+ */
+export function canActOn(actor: MeetingRole, target: MeetingRole): boolean {
+  if (!hasPermission(actor, 'moderate') || target === 'host') return false;
+  return actor === 'host' || target !== 'cohost';
+}
@@ -0,0 +1,162 @@
+/** ICE candidate type: direct (`host`), through NAT (`srflx`/`prflx`) or relayed by TURN (`relay`). */
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+/** Connection quality from 1 (poor) to 4 (excellent). */
+export type NetworkQuality = 1 | 2 | 3 | 4;
+
+/**
+ * Cumulative counters kept between polls to derive rates.
+ */
+export interface PeerStatsSample {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+  /** Ids of the RTP streams summed into the counters; they change when the connection is rebuilt. */
+  rtpStreamIds: string;
+}
+
+/**
+ * Network metrics for a single peer connection.
+ */
+export interface PeerNetworkStats {
+  /** Round-trip time of the selected candidate pair, in milliseconds. */
+  rttMs: number | null;
+  /** Highest inbound jitter across audio/video, in milliseconds. */
+  jitterMs: number | null;
+  /**
+   * Inbound packet loss since the previous sample, in percent; cumulative on the first sample and
+   * after the connection is rebuilt.
+   */
+  packetLossPct: number | null;
+  /** Inbound bitrate since the previous sample, in kbps. */
+  inboundKbps: number | null;
+  /** Outbound bitrate since the previous sample, in kbps. */
+  outboundKbps: number | null;
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  /** Null until the selected candidate pair reports an RTT or loss figure. */
+  quality: NetworkQuality | null;
+  sample: PeerStatsSample;
+}
+
+type StatsEntry = RTCStats & Record<string, unknown>;
+
+function findSelectedPair(stats: Map<string, StatsEntry>): StatsEntry | undefined {
+  // Chrome/Safari enlazan el par activo desde el transport; Firefox lo marca con `selected`
+  for (const entry of stats.values()) {
+    if (entry.type === 'transport' && typeof entry.selectedCandidatePairId === 'string') {
+      const pair = stats.get(entry.selectedCandidatePairId);
+      if (pair) return pair;
+    }
+  }
+  for (const entry of stats.values()) {
+    if (entry.type === 'candidate-pair' && (entry.selected || (entry.nominated && entry.state === 'succeeded'))) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+function candidateType(stats: Map<string, StatsEntry>, id: unknown): CandidateType | null {
+  if (typeof id !== 'string') return null;
+  return (stats.get(id)?.candidateType as CandidateType | undefined) ?? null;
+}
+
+/**
+ * Whether `previous` can serve as the baseline for `sample`: same RTP streams and no counter going
+ * backwards, which happens when the peer connection is rebuilt and its counters start over.
+ */
+function isSameSession(previous: PeerStatsSample, sample: PeerStatsSample): boolean {
+  return (
+    previous.rtpStreamIds === sample.rtpStreamIds &&
+    sample.bytesReceived >= previous.bytesReceived &&
+    sample.bytesSent >= previous.bytesSent &&
+    sample.packetsReceived >= previous.packetsReceived &&
+    sample.packetsLost >= previous.packetsLost
+  );
+}
+
+function toKbps(bytesDelta: number, msDelta: number): number {
+  return Math.max(0, Math.round((bytesDelta * 8) / msDelta));
+}
+
+/**
+ * Maps RTT and packet loss to a 1–4 quality level.
+ * @param rttMs Round-trip time in milliseconds.
+ * @param packetLossPct Packet loss in percent.
+ * @returns Null when neither metric is known.
+ */
+export function getNetworkQuality(rttMs: number | null, packetLossPct: number | null): NetworkQuality | null {
+  if (rttMs === null && packetLossPct === null) return null;
+  const rtt = rttMs ?? 0;
+  const loss = packetLossPct ?? 0;
+  if (loss > 10 || rtt > 500) return 1;
+  if (loss > 5 || rtt > 300) return 2;
+  if (loss > 2 || rtt > 150) return 3;
+  return 4;
+}
+
+/**
+ * Summarizes a native `RTCStatsReport` into the metrics shown in the call UI.
+ * @param report Report returned by `RTCPeerConnection.getStats()`.
+ * @param previous Sample from the previous poll, used to compute bitrate and recent loss; ignored
+ * when it belongs to an earlier connection with the same peer.
+ * @returns Metrics plus the sample to pass on the next call.
+ */
+export function summarizePeerStats(report: RTCStatsReport, previous?: PeerStatsSample): PeerNetworkStats {
+  const stats = new Map<string, StatsEntry>();
+  report.forEach((entry: StatsEntry) => stats.set(entry.id, entry));
+
+  const pair = findSelectedPair(stats);
+  let jitter: number | null = null;
+  const sample: PeerStatsSample = {
+    timestamp: Date.now(),
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    rtpStreamIds: '',
+  };
+  const rtpStreamIds: string[] = [];
+
+  stats.forEach((entry) => {
+    if (entry.type === 'inbound-rtp' || entry.type === 'outbound-rtp') rtpStreamIds.push(entry.id);
+    if (entry.type === 'inbound-rtp') {
+      sample.bytesReceived += Number(entry.bytesReceived ?? 0);
+      sample.packetsReceived += Number(entry.packetsReceived ?? 0);
+      sample.packetsLost += Math.max(0, Number(entry.packetsLost ?? 0));
+      if (typeof entry.jitter === 'number') jitter = Math.max(jitter ?? 0, entry.jitter);
+    } else if (entry.type === 'outbound-rtp') {
+      sample.bytesSent += Number(entry.bytesSent ?? 0);
+    }
+  });
+
+  sample.rtpStreamIds = rtpStreamIds.sort().join(',');
+
+  // Tras reconstruir el peer los contadores empiezan de cero: no restar los de la conexión anterior
+  const baseline = previous && isSameSession(previous, sample) ? previous : undefined;
+  const received = sample.packetsReceived - (baseline?.packetsReceived ?? 0);
+  const lost = sample.packetsLost - (baseline?.packetsLost ?? 0);
+  const packetLossPct = received + lost > 0 ? Math.round((lost / (received + lost)) * 1000) / 10 : null;
+
+  const elapsedMs = baseline ? sample.timestamp - baseline.timestamp : 0;
+  const inboundKbps = elapsedMs > 0 ? toKbps(sample.bytesReceived - baseline.bytesReceived, elapsedMs) : null;
+  const outboundKbps = elapsedMs > 0 ? toKbps(sample.bytesSent - baseline.bytesSent, elapsedMs) : null;
+
+  const rttMs = typeof pair?.currentRoundTripTime === 'number' ? Math.round(pair.currentRoundTripTime * 1000) : null;
+  const jitterMs = jitter === null ? null : Math.round(jitter * 1000);
+
+  return {
+    rttMs,
+    jitterMs,
+    packetLossPct,
+    inboundKbps,
+    outboundKbps,
+    localCandidateType: candidateType(stats, pair?.localCandidateId),
+    remoteCandidateType: candidateType(stats, pair?.remoteCandidateId),
+    quality: getNetworkQuality(rttMs, packetLossPct),
+    sample,
+  };
+}
@@ -0,0 +1,44 @@
+import type { PresenceState } from '@/services/chat';
+
+/** Labels shown in the participants panel for each presence state. */
+export const PRESENCE_LABELS: Record<PresenceState, string> = {
+  'in-call': 'En la llamada',
+  active: 'Activo',
+  away: 'Ausente',
+};
+
+/** Group headings in the participants panel, in display order. */
+export const PRESENCE_GROUPS: Array<{ state: PresenceState; label: string }> = [
+  { state: 'in-call', label: 'En la llamada' },
+  { state: 'active', label: 'Solo en el chat' },
+  { state: 'away', label: 'Ausentes' },
+];
+
+/** Indicator dot color for each presence state. */
+export const PRESENCE_DOT_CLASSES: Record<PresenceState, string> = {
+  'in-call': 'bg-green-500',
+  active: 'bg-sky-500',
+  away: 'bg-amber-400',
+};
+
+/**
+ * Derives the local user's presence.
+ * @param isHidden Whether the tab is hidden (`document.visibilityState`).
+ * @param isInCall Whether the user is connected to the call.
+ * @remarks A hidden tab wins over the call: the user is still listening but not looking at the room.
+ */
+export function resolvePresence(isHidden: boolean, isInCall: boolean): PresenceState {
+  if (isHidden) return 'away';
+  return isInCall ? 'in-call' : 'active';
+}
+
+/**
+ * Formats the "is typing" line for the given names.
+ * @returns Empty string when nobody is typing.
+ */
+export function formatTypingNames(names: string[]): string {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} está escribiendo…`;
+  if (names.length === 2) return `${names[0]} y ${names[1]} están escribiendo…`;
+  return `${names[0]} y ${names.length - 1} más están escribiendo…`;
+}
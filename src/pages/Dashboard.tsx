@@ -1,26 +1,28 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Video, UserPlus, Calendar } from 'lucide-react';
+import { Video, UserPlus, Calendar, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Layout } from '@/components/layout/Layout';
 import { CreateMeetingForm } from '@/components/CreateMeetingForm';
 import { UpcomingMeetings } from '@/components/UpcomingMeetings';
+import { PastMeetings } from '@/components/PastMeetings';
 import { useAuthStore } from '@/store/authStore';
 import { useMeetingStore } from '@/store/meetingStore';
 import { toast } from 'sonner';
 
 /**
- * Dashboard page for authenticated users to create or join meetings and view upcoming ones.
+ * Dashboard page for authenticated users to create or join meetings and view upcoming and past ones.
  */
 export default function Dashboard() {
   const { user, isAuthenticated } = useAuthStore();
-  const { getUpcomingMeetings } = useMeetingStore();
+  const { getUpcomingMeetings, getPastMeetings } = useMeetingStore();
   const navigate = useNavigate();
   const [meetingCode, setMeetingCode] = useState('');
 
   const upcomingMeetings = getUpcomingMeetings();
+  const pastMeetings = getPastMeetings();
 
   const joinMeeting = () => {
     if (meetingCode.trim()) {
@@ -138,6 +140,21 @@ export default function Dashboard() {
           </div>
           <UpcomingMeetings meetings={upcomingMeetings} />
         </div>
+
+        {/* Past meetings */}
+        {pastMeetings.length > 0 && (
+          <div className="mt-12">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted">
+                <History className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+              </div>
+              <h2 className="text-xl font-semibold text-foreground">
+                Reuniones pasadas ({pastMeetings.length})
+              </h2>
+            </div>
+            <PastMeetings meetings={pastMeetings} />
+          </div>
+        )}
       </div>
     </Layout>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Video,
@@ -11,30 +11,72 @@ import {
   Settings,
   Copy,
   X,
-  Send,
   Monitor,
   MonitorOff,
   Loader2,
   AlertCircle,
   Wifi,
   WifiOff,
+  Hourglass,
+  ShieldX,
+  LayoutGrid,
+  SquareUser,
+  Activity,
+  Hand,
+  Circle,
+  Square,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAuthStore } from '@/store/authStore';
-import { useMeetingStore, Meeting } from '@/store/meetingStore';
-import { getMeetingById, updateMeetingStatus } from '@/services/meetings';
-import { useChat } from '@/hooks/use-chat';
-import { startVoiceChat, stopVoiceChat, setMicrophoneEnabled } from '@/services/webrtc';
+import { useMeetingStore, Meeting, MeetingRole, MeetingSettings } from '@/store/meetingStore';
+import {
+  getMeetingById,
+  transferMeetingHost,
+  updateMeetingRoles,
+  updateMeetingSettings,
+  updateMeetingStatus,
+} from '@/services/meetings';
+import { canActOn, getMeetingRole, hasPermission, ROLE_LABELS } from '@/lib/meeting-roles';
+import { getConversationId, ROOM_CONVERSATION_ID, useChat } from '@/hooks/use-chat';
+import { useChatNotifications } from '@/hooks/use-chat-notifications';
+import { useWaitingRoom } from '@/hooks/use-waiting-room';
+import { useActiveSpeaker } from '@/hooks/use-active-speaker';
+import { useCall } from '@/hooks/use-call';
+import { usePeerStats } from '@/hooks/use-peer-stats';
+import { useCallDevices } from '@/hooks/use-call-devices';
+import { useRaisedHands } from '@/hooks/use-raised-hands';
+import { useReactions } from '@/hooks/use-reactions';
+import { useRecording } from '@/hooks/use-recording';
+import { isRecordingSupported, RecordingSource } from '@/lib/meeting-recorder';
+import { RecordingBanner } from '@/components/meeting/RecordingBanner';
+import { useTyping } from '@/hooks/use-typing';
+import { usePresence } from '@/hooks/use-presence';
+import { PRESENCE_DOT_CLASSES, PRESENCE_GROUPS, PRESENCE_LABELS } from '@/lib/presence';
+import { useDeviceStore } from '@/store/deviceStore';
+import { WaitingRoomPanel } from '@/components/meeting/WaitingRoomPanel';
+import { MeetingPasswordGate } from '@/components/meeting/MeetingPasswordGate';
+import { chatService, ChatMention, LobbyEntry, ModerationAction, RaisedHand, RoomRejectionReason } from '@/services/chat';
+import { callManager } from '@/services/webrtc';
 import { toast } from 'sonner';
-import { localStream, peers } from '@/services/webrtc';
+import { VideoGallery } from '@/components/meeting/VideoGallery';
+import { SpeakerView } from '@/components/meeting/SpeakerView';
+import { HostControlsMenu } from '@/components/meeting/HostControlsMenu';
+import { CallDiagnosticsSheet } from '@/components/meeting/CallDiagnosticsSheet';
+import { DeviceSettingsDialog } from '@/components/meeting/DeviceSettingsDialog';
+import { PreJoinScreen } from '@/components/meeting/PreJoinScreen';
+import { ParticipantModerationMenu } from '@/components/meeting/ParticipantModerationMenu';
+import { RaisedHandsPanel } from '@/components/meeting/RaisedHandsPanel';
+import { ReactionPicker } from '@/components/meeting/ReactionPicker';
+import { FloatingReactions } from '@/components/meeting/FloatingReactions';
+import { ChatPanel } from '@/components/meeting/ChatPanel';
+import type { GalleryParticipant } from '@/components/meeting/ParticipantTile';
 
 /**
- * Hidden audio renderer for a remote peer stream.
+ * Hidden audio renderer for a remote peer stream, routed to the chosen speaker when supported.
  */
-function RemoteAudio({ peerId, stream }: { peerId: string; stream: MediaStream }) {
+function RemoteAudio({ peerId, stream, sinkId }: { peerId: string; stream: MediaStream; sinkId?: string }) {
   const ref = useRef<HTMLAudioElement | null>(null);
 
   useEffect(() => {
@@ -43,22 +85,18 @@ function RemoteAudio({ peerId, stream }: { peerId: string; stream: MediaStream }
     }
   }, [stream]);
 
-  return <audio ref={ref} data-peer-id={peerId} autoPlay playsInline style={{ display: "none" }} />;
-}
-function createEmptyVideoTrack() {
-  const canvas = document.createElement("canvas");
-  canvas.width = 1;
-  canvas.height = 1;
-
-  const ctx = canvas.getContext("2d")!;
-  ctx.fillStyle = "black";
-  ctx.fillRect(0, 0, 1, 1);
+  useEffect(() => {
+    const el = ref.current as (HTMLAudioElement & { setSinkId?: (id: string) => Promise<void> }) | null;
+    if (!el?.setSinkId) return;
+    // Cadena vacía = salida predeterminada del sistema
+    el.setSinkId(sinkId ?? '').catch((err) => {
+      console.warn('[MeetingRoom] No se pudo cambiar el altavoz:', err);
+    });
+  }, [sinkId]);
 
-  const stream = canvas.captureStream();
-  return stream.getVideoTracks()[0];
+  return <audio ref={ref} data-peer-id={peerId} autoPlay playsInline style={{ display: "none" }} />;
 }
 
-
 /**
  * Meeting room page handling media, voice chat, and text chat for a meeting code/ID.
  */
@@ -72,96 +110,219 @@ export default function MeetingRoom() {
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [isLoadingMeeting, setIsLoadingMeeting] = useState(true);
   const [meetingError, setMeetingError] = useState<string | null>(null);
+  const [isPasswordVerified, setIsPasswordVerified] = useState(false);
+  const [hasJoined, setHasJoined] = useState(false);
+  const [rejection, setRejection] = useState<RoomRejectionReason | null>(null);
 
   // Estado de controles de media
   const [isVideoOn, setIsVideoOn] = useState(true);
   const [isAudioOn, setIsAudioOn] = useState(true);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
 
   // Estado de paneles laterales
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isParticipantsOpen, setIsParticipantsOpen] = useState(false);
-  const [chatMessage, setChatMessage] = useState('');
-
-  // Estado para WebRTC
-  const [voiceReady, setVoiceReady] = useState(false);
-  const [voiceError, setVoiceError] = useState<string | null>(null);
-  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
-  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-
-  // Referencias para media streams
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const localAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [layout, setLayout] = useState<'gallery' | 'speaker'>('gallery');
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isDeviceSettingsOpen, setIsDeviceSettingsOpen] = useState(false);
+  const [chatConversationId, setChatConversationId] = useState(ROOM_CONVERSATION_ID);
 
   const hasSidePanelOpen = isChatOpen || isParticipantsOpen;
-  const isHost = meeting?.hostUid === user?.id || meeting?.createdBy === user?.id;
-
-  // Callbacks para WebRTC
-  const handleRemoteStream = useCallback((peerId: string, stream: MediaStream) => {
-    console.log('[MeetingRoom] Stream remoto recibido de:', peerId);
-    setRemoteStreams((prev) => ({ ...prev, [peerId]: stream }));
-  }, []);
-
-  const handlePeerLeft = useCallback((peerId: string) => {
-    console.log('[MeetingRoom] Peer desconectado:', peerId);
-    setRemoteStreams((prev) => {
-      if (!prev[peerId]) return prev;
-      const copy = { ...prev };
-      delete copy[peerId];
-      return copy;
+  // Reunión vigente para los listeners del chat, que no se vuelven a suscribir en cada cambio
+  const meetingRef = useRef(meeting);
+  meetingRef.current = meeting;
+  // Permisos según el rol del usuario local en esta reunión
+  const role = getMeetingRole(meeting, user?.id);
+  const isHost = role === 'host';
+  const canModerate = hasPermission(role, 'moderate');
+  const canManageSettings = hasPermission(role, 'manageSettings');
+  const canManageRoles = hasPermission(role, 'manageRoles');
+  const canPublishMedia = hasPermission(role, 'publishMedia');
+  const canExportChat = hasPermission(role, 'exportChat');
+  const canRecord = hasPermission(role, 'record');
+  // Quienes no moderan deben validar la contraseña antes de cualquier otra cosa; el chat y la voz
+  // exigen el token de la verificación y deciden en el servidor quién queda exento
+  const requiresPassword = Boolean(meeting?.settings?.requirePassword) && !canModerate;
+  const hasAccess = Boolean(meeting?.id) && (!requiresPassword || isPasswordVerified);
+  // Quienes no moderan esperan admisión cuando la reunión tiene sala de espera
+  const requiresAdmission = Boolean(meeting?.id && meeting.settings?.waitingRoom) && !canModerate;
+
+  const handleParticipantWaiting = useCallback((entry: LobbyEntry) => {
+    toast.info(`${entry.userName ?? 'Un participante'} está en la sala de espera`, {
+      action: {
+        label: 'Ver',
+        onClick: () => {
+          setIsParticipantsOpen(true);
+          setIsChatOpen(false);
+        },
+      },
     });
   }, []);
 
+  // Sala de espera: admisión del usuario local y cola para el anfitrión
+  const {
+    admissionState,
+    queue: waitingQueue,
+    admit: admitParticipant,
+    deny: denyParticipant,
+    admitAll: admitAllParticipants,
+  } = useWaitingRoom({
+    // La solicitud de admisión se envía al pulsar "Unirse" en la pantalla previa
+    meetingId: hasAccess && hasJoined ? meeting.id : '',
+    requiresAdmission,
+    onParticipantWaiting: handleParticipantWaiting,
+  });
+  const canJoinCall = hasAccess && hasJoined && !rejection && admissionState === 'admitted';
+  const canShareScreen =
+    hasPermission(role, 'shareScreen') && (canModerate || meeting?.settings?.screenSharing !== false);
+  const screenShareDeniedMessage = hasPermission(role, 'shareScreen')
+    ? 'El anfitrión desactivó compartir pantalla'
+    : 'Tu rol no permite compartir pantalla';
+
+  // Llamada WebRTC: un único CallManager gestiona socket, peers y pistas locales
+  const savedDevices = useDeviceStore((state) => state.getPreferences(user?.id ?? ''));
+  const {
+    connectionState: callState,
+    localStream,
+    remoteStreams,
+    peerIdentities,
+    peerMediaStates,
+    peerConnectionStates,
+    error: callError,
+    setMicrophoneEnabled,
+    setCameraEnabled,
+    startScreenShare,
+    stopScreenShare,
+    switchDevice,
+    leave: leaveCall,
+  } = useCall({
+    meetingId: meeting?.id ?? '',
+    enabled: canJoinCall,
+    initialAudio: isAudioOn,
+    initialVideo: isVideoOn,
+    audioInputId: savedDevices.audioInputId,
+    videoInputId: savedDevices.videoInputId,
+    // Los espectadores solo reciben; cambiar de rol vuelve a unir la llamada
+    receiveOnly: !canPublishMedia,
+  });
+  const { devices, preferences: devicePreferences, changeDevice } = useCallDevices({
+    userId: user?.id ?? '',
+    localStream,
+    switchDevice,
+  });
+  const voiceReady = callState === 'connected';
+  const isReconnecting = callState === 'reconnecting';
+  const peerStats = usePeerStats({ enabled: callState === 'connected' });
+  const voiceError = !callError
+    ? null
+    : callError.code === 'reconnect_failed'
+      ? 'Se perdió la conexión con la llamada. Recarga la página para volver a unirte.'
+      : callError.code === 'join_failed'
+        ? 'No se pudo iniciar el canal de voz. Verifica los permisos del micrófono.'
+        : null;
+
+  const { notifyNewMessage } = useChatNotifications(user?.id ?? '');
+
   // Hook de chat
   const {
     messages,
+    threads: chatThreads,
+    unreadCounts: chatUnreadCounts,
+    firstUnreadMessageIds: chatFirstUnreadIds,
+    deliveryStatus: chatDeliveryStatus,
     connectionState: chatConnectionState,
     isLoadingHistory,
+    hasMoreHistory: hasMoreChatHistory,
+    isLoadingOlder: isLoadingOlderChat,
+    loadOlderMessages: loadOlderChatMessages,
+    searchMessages: searchChatMessages,
     usersOnline,
+    canSendPrivate: canSendPrivateChat,
     sendMessage: sendChatMessage,
+    uploadAttachment: uploadChatAttachment,
+    retryMessage: retryChatMessage,
+    discardMessage: discardChatMessage,
+    editMessage: editChatMessage,
+    deleteMessage: deleteChatMessage,
+    toggleReaction: toggleChatReaction,
     connect: connectChat,
     disconnect: disconnectChat,
   } = useChat({
-    meetingId: meeting?.id ?? '',
+    // Mientras se espera admisión no se carga historial ni se entra a la sala
+    meetingId: canJoinCall ? meeting.id : '',
     autoConnect: false,
+    activeConversationId: isChatOpen ? chatConversationId : null,
     onNewMessage: (msg) => {
-      // Solo mostrar toast si el mensaje es de otro usuario
-      if (msg.userId !== user?.id) {
-        toast.info(`${msg.userName ?? 'Usuario'}: ${msg.message.substring(0, 50)}...`);
-      }
+      // Solo avisar de mensajes de otros usuarios
+      if (msg.userId === user?.id) return;
+      const conversationId = getConversationId(msg, user?.id ?? '');
+      notifyNewMessage(msg, {
+        isConversationVisible: isChatOpen && conversationId === chatConversationId,
+        onOpen: () => {
+          setChatConversationId(conversationId);
+          setIsChatOpen(true);
+          setIsParticipantsOpen(false);
+        },
+      });
     },
   });
+  const chatUnreadTotal = Object.values(chatUnreadCounts).reduce((total, count) => total + count, 0);
+
+  // Candidatos para @menciones: usuarios en la sala salvo el local
+  const mentionableUsers = useMemo<ChatMention[]>(
+    () =>
+      (usersOnline?.users ?? [])
+        .filter((online) => online.odId !== user?.id && online.odName)
+        .map((online) => ({ userId: online.odId, userName: online.odName })),
+    [usersOnline, user?.id]
+  );
 
-  const closeSidePanels = () => {
-    setIsChatOpen(false);
-    setIsParticipantsOpen(false);
-  };
+  // Manos levantadas: aviso a quienes moderan cuando alguien pide la palabra
+  const handleHandRaised = useCallback(
+    (hand: RaisedHand) => {
+      if (!canModerate) return;
+      toast.info(`${hand.userName ?? 'Un participante'} levantó la mano`);
+    },
+    [canModerate]
+  );
+  const {
+    hands: raisedHands,
+    isHandRaised,
+    toggleHand,
+    lowerHand,
+    lowerAllHands,
+  } = useRaisedHands({
+    meetingId: canJoinCall ? meeting.id : '',
+    userId: user?.id ?? '',
+    onHandRaised: handleHandRaised,
+  });
+  const { reactions, sendReaction } = useReactions(canJoinCall ? meeting.id : '');
+  const { typingByConversation, notifyTyping, stopTyping } = useTyping(
+    canJoinCall ? meeting.id : '',
+    user?.id ?? ''
+  );
+  const { localPresence, presenceByUser } = usePresence({
+    meetingId: canJoinCall ? meeting.id : '',
+    isInCall: voiceReady,
+    usersOnline,
+  });
 
-  // Obtener acceso a la cámara y micrófono
   /**
-   * Requests local media (camera + mic) and binds streams to local elements.
+   * 1-based position of a user in the raised-hand queue, or undefined when the hand is down.
    */
-  const initializeMediaDevices = useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true,
-      });
-      setLocalStream(stream);
+  const getHandPosition = useCallback(
+    (userId: string | undefined) => {
+      const index = userId ? raisedHands.findIndex((hand) => hand.userId === userId) : -1;
+      return index === -1 ? undefined : index + 1;
+    },
+    [raisedHands]
+  );
 
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
-      if (localAudioRef.current) {
-        localAudioRef.current.srcObject = stream;
-      }
-    } catch (error) {
-      console.error('Error accediendo a dispositivos de media:', error);
-      toast.error('No se pudo acceder a la cámara o micrófono');
-      setIsVideoOn(false);
-      setIsAudioOn(false);
-    }
-  }, []);
+  const closeSidePanels = () => {
+    setIsChatOpen(false);
+    setIsParticipantsOpen(false);
+  };
 
   // Cargar reunión desde API o store local
   useEffect(() => {
@@ -179,6 +340,9 @@ export default function MeetingRoom() {
 
       setIsLoadingMeeting(true);
       setMeetingError(null);
+      setIsPasswordVerified(false);
+      setHasJoined(false);
+      setRejection(null);
 
       // Buscar en el store local por ID o código
       const localMeeting = getMeetingByIdOrCode(code);
@@ -207,101 +371,121 @@ export default function MeetingRoom() {
     loadMeeting();
   }, [code, isAuthenticated, navigate, getMeetingByIdOrCode, upsertMeeting]);
 
-  // Inicializar media cuando la reunión esté lista
+  // Conectar el chat cuando la reunión esté lista y el usuario haya sido admitido
   useEffect(() => {
-    if (!meeting?.id || !isAuthenticated) {
+    if (!canJoinCall || !isAuthenticated) {
       return;
     }
 
     console.log('[MeetingRoom] Reunión cargada, iniciando servicios para:', meeting.id);
-
-    // Inicializar dispositivos de media y conectar chat sin abrir panel
-    initializeMediaDevices();
     connectChat();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [meeting?.id, isAuthenticated]);
+  }, [meeting?.id, canJoinCall, isAuthenticated]);
 
-  // Iniciar WebRTC cuando tengamos meetingId
+  // Avisar al conectar y al recuperar la llamada tras una caída
+  const previousCallStateRef = useRef(callState);
   useEffect(() => {
-    if (!meeting?.id) return;
+    const previous = previousCallStateRef.current;
+    previousCallStateRef.current = callState;
+    if (callState !== 'connected' || previous === 'connected') return;
+    toast.success(previous === 'reconnecting' ? 'Conexión restablecida' : 'Conectado al canal de voz');
+  }, [callState]);
 
-    setVoiceError(null);
-    let cleanup: (() => void) | null = null;
-    let cancelled = false;
-
-    startVoiceChat(meeting.id, {
-      onRemoteStream: handleRemoteStream,
-      onPeerLeft: handlePeerLeft,
-    })
-      .then(({ stop, localStream: stream }) => {
-        if (cancelled) {
-          stop();
-          return;
-        }
-        cleanup = stop;
-        setVoiceReady(true);
-        setLocalStream(stream);
-        if (localAudioRef.current) {
-          localAudioRef.current.srcObject = stream;
-        }
-        toast.success('Conectado al canal de voz');
-      })
-      .catch((err) => {
-        console.error('[MeetingRoom] Error iniciando voice chat:', err);
-        setVoiceError('No se pudo iniciar el canal de voz. Verifica los permisos del micrófono.');
-      });
+  // Sin cámara disponible la llamada continúa solo con audio
+  useEffect(() => {
+    if (localStream && localStream.getVideoTracks().length === 0) {
+      setIsVideoOn(false);
+    }
+  }, [localStream]);
 
-    return () => {
-      cancelled = true;
-      cleanup?.();
-      stopVoiceChat();
-      setVoiceReady(false);
-      setRemoteStreams({});
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [meeting?.id]);
-  //Actualizar video 
-  // Mantener el srcObject del video local en sincronía con localStream / isVideoOn
+  // Aplicar cambios de configuración que el anfitrión difunde en vivo
   useEffect(() => {
-    const el = localVideoRef.current;
-    if (!el) return;
+    if (!meeting?.id) return;
+    return chatService.onMeetingSettings(({ settings, byUserId }) => {
+      // El servidor valida al emisor; se descarta igualmente si su rol no gestiona la configuración
+      if (!hasPermission(getMeetingRole(meetingRef.current, byUserId), 'manageSettings')) return;
+      setMeeting((prev) => (prev ? { ...prev, settings } : prev));
+    });
+  }, [meeting?.id]);
 
-    if (isVideoOn && localStream) {
-      // si el elemento no tiene ya el stream, asignarlo
-      if (el.srcObject !== localStream) {
-        el.srcObject = localStream;
+  // Acciones de moderación del anfitrión dirigidas al usuario local
+  useEffect(() => {
+    if (!meeting?.id) return;
+    return chatService.onModerationAction(({ action, targetUserId, byUserId }) => {
+      // El servidor ya lo autorizó y solo lo envía al destinatario; se descarta lo que no encaje
+      if (!user?.id || targetUserId !== user.id || !byUserId) return;
+      const current = meetingRef.current;
+      if (!canActOn(getMeetingRole(current, byUserId), getMeetingRole(current, user.id))) return;
+      if (action === 'mute') {
+        setIsAudioOn(false);
+        toast.info('El anfitrión silenció tu micrófono');
+      } else if (action === 'disableCamera') {
+        setIsVideoOn(false);
+        toast.info('El anfitrión apagó tu cámara');
+      } else if (action === 'remove') {
+        setRejection('removed');
       }
-      // intentar reproducir (evita que quede en pausa)
-      el.play().catch(() => { });
-    } else {
-      // limpiar completamente para evitar frame congelado
-      el.srcObject = null;
-      el.pause();
-      el.src = "";
-      el.load();
+    });
+  }, [meeting?.id, user?.id]);
+
+  // Cambios de roles y traspasos de anfitrión difundidos en vivo
+  useEffect(() => {
+    if (!meeting?.id) return;
+    return chatService.onMeetingRoles(({ hostUid, roles, byUserId }) => {
+      // Solo el anfitrión actual reparte roles; en un traspaso el servidor firma como el saliente
+      if (getMeetingRole(meetingRef.current, byUserId) !== 'host') return;
+      setMeeting((prev) => (prev ? { ...prev, hostUid, roles } : prev));
+    });
+  }, [meeting?.id]);
+
+  // Avisar cuando cambia el rol propio; los espectadores no envían audio ni video
+  const previousRoleRef = useRef(role);
+  useEffect(() => {
+    const previous = previousRoleRef.current;
+    previousRoleRef.current = role;
+    if (!canPublishMedia) {
+      setIsAudioOn(false);
+      setIsVideoOn(false);
+    }
+    if (previous !== role && hasJoined) {
+      toast.info(`Ahora tu rol es ${ROLE_LABELS[role].toLowerCase()}`);
     }
+  }, [role, canPublishMedia, hasJoined]);
+
+  // El servidor rechaza la entrada si la reunión está bloqueada o fuimos expulsados
+  useEffect(() => {
+    if (!meeting?.id) return;
+    return chatService.onRoomRejected(({ reason }) => setRejection(reason));
+  }, [meeting?.id]);
+
+  // Al ser rechazado, salir de la llamada y del chat
+  useEffect(() => {
+    if (!rejection) return;
+    leaveCall();
+    disconnectChat();
+  }, [rejection, leaveCall, disconnectChat]);
 
-    // No hace falta cleanup especial
-  }, [localStream, isVideoOn, localVideoRef]);
+  // Liberar la captura de pantalla al reemplazarla o al desmontar
+  useEffect(() => {
+    return () => {
+      screenStream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [screenStream]);
+
+  // Actualizar estado de cámara
+  useEffect(() => {
+    setCameraEnabled(isVideoOn);
+  }, [isVideoOn, setCameraEnabled]);
 
   // Actualizar estado de micrófono
   useEffect(() => {
     setMicrophoneEnabled(isAudioOn);
-    if (localStream) {
-      localStream.getAudioTracks().forEach((track) => {
-        track.enabled = isAudioOn;
-      });
-    }
-  }, [isAudioOn, localStream]);
+  }, [isAudioOn, setMicrophoneEnabled]);
 
   // Cleanup al desmontar el componente
   useEffect(() => {
     return () => {
-      console.log('[MeetingRoom] Cleanup final: deteniendo streams y desconectando servicios');
-      if (localStream) {
-        localStream.getTracks().forEach((track) => track.stop());
-      }
-      stopVoiceChat();
+      console.log('[MeetingRoom] Cleanup final: desconectando chat');
       disconnectChat();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -310,16 +494,123 @@ export default function MeetingRoom() {
   const remotePeerCount = Object.keys(remoteStreams).length;
 
   /**
-   * Ends the call, optionally closes the meeting when host, and navigates out.
+   * Resolves a peer's display name from `usersOnline`, then its announced identity.
    */
-  const handleEndCall = async () => {
-    // Detener streams de media
-    if (localStream) {
-      localStream.getTracks().forEach((track) => track.stop());
+  const getPeerDisplayName = useCallback((peerId: string) => {
+    const identity = peerIdentities[peerId];
+    const online = identity
+      ? usersOnline?.users?.find((u) => u.odId === identity.userId)
+      : undefined;
+    return online?.odName || identity?.userName || `Participante ${peerId.slice(0, 4)}`;
+  }, [peerIdentities, usersOnline]);
+
+  // Detección de orador activo sobre el stream local y los remotos
+  const speakerStreams = useMemo(
+    () => ({ local: localStream, ...remoteStreams }),
+    [localStream, remoteStreams]
+  );
+  const { speaking, dominantSpeaker } = useActiveSpeaker(speakerStreams);
+
+  const galleryParticipants = useMemo<GalleryParticipant[]>(() => {
+    if (!user) return [];
+    const local: GalleryParticipant = {
+      id: 'local',
+      name: `${user.firstName} ${user.lastName}`.trim(),
+      avatarUrl: user.avatar,
+      stream: screenStream ?? localStream,
+      isVideoOn: isVideoOn || Boolean(screenStream),
+      isAudioOn,
+      isLocal: true,
+      isScreenSharing: Boolean(screenStream),
+      isSpeaking: isAudioOn && Boolean(speaking.local),
+      handPosition: getHandPosition(user.id),
+    };
+    const remotes = Object.entries(remoteStreams).map(([peerId, stream]) => ({
+      id: peerId,
+      userId: peerIdentities[peerId]?.userId,
+      name: getPeerDisplayName(peerId),
+      stream,
+      isVideoOn: (peerMediaStates[peerId]?.video ?? true) || Boolean(peerMediaStates[peerId]?.screen),
+      isAudioOn: peerMediaStates[peerId]?.audio ?? true,
+      isScreenSharing: Boolean(peerMediaStates[peerId]?.screen),
+      isSpeaking: Boolean(speaking[peerId]),
+      isReconnecting: isReconnecting || peerConnectionStates[peerId] === 'reconnecting',
+      networkQuality: peerStats[peerId]?.quality ?? null,
+      handPosition: getHandPosition(peerIdentities[peerId]?.userId),
+    }));
+    return [local, ...remotes];
+  }, [
+    user,
+    screenStream,
+    localStream,
+    isVideoOn,
+    isAudioOn,
+    remoteStreams,
+    peerIdentities,
+    peerMediaStates,
+    peerConnectionStates,
+    isReconnecting,
+    peerStats,
+    speaking,
+    getPeerDisplayName,
+    getHandPosition,
+  ]);
+
+  // Grabación local: las mismas teselas de la galería; el micrófono aparte por si se comparte pantalla
+  const recordingSources = useMemo<RecordingSource[]>(
+    () =>
+      galleryParticipants.map((p) => ({
+        id: p.id,
+        name: p.name,
+        stream: p.stream,
+        audioStream: p.isLocal ? localStream : undefined,
+        isVideoOn: p.isVideoOn,
+      })),
+    [galleryParticipants, localStream]
+  );
+  const { activeRecording, isRecording, startRecording, stopRecording } = useRecording({
+    meeting: canJoinCall ? meeting : null,
+    userId: user?.id ?? '',
+    userName: user ? `${user.firstName} ${user.lastName}`.trim() : undefined,
+    sources: recordingSources,
+  });
+
+  /**
+   * Starts or stops the local recording; stopping downloads the WebM file.
+   */
+  const handleToggleRecording = async () => {
+    if (isRecording) {
+      await stopRecording();
+      toast.success('Grabación detenida. Descargando el archivo...');
+      return;
     }
+    if (!isRecordingSupported()) {
+      toast.error('Este navegador no permite grabar la reunión');
+      return;
+    }
+    try {
+      startRecording();
+      toast.info('Grabación iniciada. Todos los participantes verán el aviso.');
+    } catch (error) {
+      console.error('Error iniciando grabación:', error);
+      toast.error('No se pudo iniciar la grabación');
+    }
+  };
 
-    // Si es host, preguntar si quiere cerrar la reunión para todos
-    if (isHost && meeting?.id) {
+  /**
+   * Ends the call and navigates out. When a host leaves with others still in the room, the server
+   * hands the role over on disconnect (as it does if the tab closes); the meeting only closes when
+   * nobody is left.
+   */
+  const handleEndCall = async () => {
+    // Detener antes de salir para descargar el archivo y retirar el aviso mientras el chat sigue conectado
+    if (isRecording) await stopRecording();
+
+    const othersInRoom = (usersOnline?.users ?? []).some((online) => online.odId !== user?.id);
+
+    if (isHost && meeting?.id && !othersInRoom) {
+      // Salir de la llamada y cerrar la reunión: no queda nadie más
+      leaveCall();
       try {
         await updateMeetingStatus(meeting.id, 'closed');
         toast.success('Reunión finalizada');
@@ -327,6 +618,7 @@ export default function MeetingRoom() {
         console.error('Error cerrando reunión:', error);
       }
     } else {
+      leaveCall();
       toast.info('Has salido de la reunión');
     }
 
@@ -355,104 +647,149 @@ export default function MeetingRoom() {
   };
 
   /**
-   * Sends a chat message via useChat hook and clears the input.
+   * Toggles the local camera; peers are notified through the voice data channel.
    */
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatMessage.trim() || !user) return;
-
-    sendChatMessage(chatMessage.trim());
-    setChatMessage('');
+  const toggleVideo = () => {
+    setIsVideoOn(!isVideoOn);
   };
-  //**  Emptyvideotrack/
-
 
   /**
-   * Toggles local video track, requesting permissions again when needed.
+   * Toggles microphone tracks on/off.
    */
-  const toggleVideo = async () => {
-    if (!localStream) return;
+  const toggleAudio = () => {
+    setIsAudioOn(!isAudioOn);
+  };
 
-    const videoTrack = localStream.getVideoTracks()[0];
-    if (!videoTrack) return;
+  /**
+   * Restores the camera on every peer and releases the screen capture.
+   */
+  const stopSharingScreen = useCallback(() => {
+    stopScreenShare();
+    setScreenStream(null);
+    setIsScreenSharing(false);
+  }, [stopScreenShare]);
 
-    const isOn = videoTrack.enabled;
+  // Cortar la pantalla compartida si el anfitrión desactiva el permiso
+  useEffect(() => {
+    if (isScreenSharing && !canShareScreen) {
+      stopSharingScreen();
+      toast.info(screenShareDeniedMessage);
+    }
+  }, [isScreenSharing, canShareScreen, stopSharingScreen, screenShareDeniedMessage]);
+
+  // Participantes remotos: presencia del chat combinada con su conexión de video
+  const remoteParticipantRows = useMemo(() => {
+    const remotes = galleryParticipants.filter((p) => !p.isLocal);
+    const rows = (usersOnline?.users ?? [])
+      .filter((online) => online.odId !== user?.id)
+      .map((online) => {
+        const participant = remotes.find((p) => p.userId === online.odId);
+        return { userId: online.odId, name: online.odName || participant?.name || 'Participante', participant };
+      });
+    // Peers cuya presencia aún no llegó por el chat
+    remotes
+      .filter((p) => !rows.some((row) => row.participant === p))
+      .forEach((p) => rows.push({ userId: p.userId, name: p.name, participant: p }));
+    // Sin evento de presencia todavía: en la llamada si hay conexión de video, si no solo en el chat
+    return rows.map((row) => ({
+      ...row,
+      presence: (row.userId && presenceByUser[row.userId]) || (row.participant ? 'in-call' : 'active'),
+    }));
+  }, [galleryParticipants, usersOnline, user?.id, presenceByUser]);
 
-    // ==========================
-    // 🔴 APAGAR VIDEO
-    // ==========================
-    if (isOn) {
-      videoTrack.enabled = false;
+  /**
+   * Sends a moderation action for a participant (hosts and co-hosts).
+   */
+  const handleModerate = (userId: string, name: string, action: ModerationAction) => {
+    if (!canActOn(role, getMeetingRole(meeting, userId))) return;
+    chatService.moderateParticipant(action, userId);
+    const messages: Record<ModerationAction, string> = {
+      mute: `Silenciaste a ${name}`,
+      disableCamera: `Apagaste la cámara de ${name}`,
+      remove: `${name} fue expulsado de la reunión`,
+    };
+    toast.success(messages[action]);
+  };
 
-      // Reemplazar el videoTrack por sí mismo (evita errores sin usar fake track)
-      peers.forEach(peer => {
-        try {
-          peer.replaceTrack(videoTrack, videoTrack, localStream);
-        } catch (_) { }
-      });
+  /**
+   * Persists a settings change and broadcasts it to everyone in the room (hosts and co-hosts).
+   */
+  const handleSettingsChange = async (patch: Partial<MeetingSettings>) => {
+    if (!meeting || !canManageSettings) return;
 
-      // Limpiar vista local para evitar imagen congelada
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = null;
-        localVideoRef.current.pause();
-        localVideoRef.current.src = "";
-        localVideoRef.current.load();
-      }
+    const settings = { ...meeting.settings, ...patch };
+    setMeeting({ ...meeting, settings });
+    chatService.broadcastMeetingSettings(settings);
 
-      setIsVideoOn(false);
-      return;
+    try {
+      const updated = await updateMeetingSettings(meeting.id, settings);
+      upsertMeeting(updated);
+    } catch (error) {
+      console.error('Error guardando configuración de la reunión:', error);
+      toast.error('El cambio se aplicó en la llamada pero no se pudo guardar');
     }
+  };
 
-    // ==========================
-    // 🟢 ENCENDER VIDEO
-    // ==========================
-    videoTrack.enabled = true;
+  /**
+   * Applies a new host and role map locally, broadcasts it and persists it (host only).
+   */
+  const applyRoles = async (hostUid: string, roles: Record<string, MeetingRole>, persist: () => Promise<Meeting>) => {
+    if (!meeting) return;
 
-    // Restaurar transmisión
-    peers.forEach(peer => {
-      try {
-        peer.replaceTrack(videoTrack, videoTrack, localStream);
-      } catch (_) { }
-    });
+    setMeeting({ ...meeting, hostUid, roles });
+    chatService.broadcastMeetingRoles(hostUid, roles);
 
-    // Restaurar vista local
-    if (localVideoRef.current) {
-      localVideoRef.current.srcObject = localStream;
-      localVideoRef.current.play().catch(() => { });
+    try {
+      upsertMeeting(await persist());
+    } catch (error) {
+      console.error('Error guardando roles de la reunión:', error);
+      toast.error('El cambio se aplicó en la llamada pero no se pudo guardar');
     }
-
-    setIsVideoOn(true);
   };
 
+  /**
+   * Assigns a role to a participant (host only).
+   */
+  const handleRoleChange = (userId: string, name: string, newRole: Exclude<MeetingRole, 'host'>) => {
+    if (!meeting || !canManageRoles || getMeetingRole(meeting, userId) === newRole) return;
 
+    const roles = { ...meeting.roles, [userId]: newRole };
+    applyRoles(meeting.hostUid, roles, () => updateMeetingRoles(meeting.id, roles));
+    toast.success(`${name} ahora es ${ROLE_LABELS[newRole].toLowerCase()}`);
+  };
 
   /**
-   * Toggles microphone tracks on/off.
+   * Hands the host role to a participant; the local user stays as co-host (host only).
    */
-  const toggleAudio = () => {
-    setIsAudioOn(!isAudioOn);
+  const handleTransferHost = (userId: string, name: string) => {
+    if (!meeting || !canManageRoles) return;
+
+    const roles: Record<string, MeetingRole> = { ...meeting.roles, [user.id]: 'cohost' };
+    delete roles[userId];
+    applyRoles(userId, roles, () => transferMeetingHost(meeting.id, userId, roles));
+    toast.success(`${name} ahora es el anfitrión`);
   };
 
   /**
-   * Switches between screen sharing and camera stream.
+   * Switches between screen sharing and camera stream; the screen is published to all peers.
    */
   const toggleScreenShare = async () => {
     if (isScreenSharing) {
-      // Detener compartir pantalla y volver a cámara
-      await initializeMediaDevices();
-      setIsScreenSharing(false);
+      // Detener compartir pantalla y volver a cámara en todos los peers
+      stopSharingScreen();
       toast.info('Compartir pantalla desactivado');
     } else {
+      if (!canShareScreen) {
+        toast.error(screenShareDeniedMessage);
+        return;
+      }
       try {
-        const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
-        if (localVideoRef.current) {
-          localVideoRef.current.srcObject = screenStream;
-        }
-        // Detectar cuando el usuario deja de compartir
-        screenStream.getVideoTracks()[0].onended = () => {
-          setIsScreenSharing(false);
-          initializeMediaDevices();
-        };
+        const displayStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+        const [displayTrack] = displayStream.getVideoTracks();
+        startScreenShare(displayTrack);
+        setScreenStream(displayStream);
+        // Detectar cuando el usuario deja de compartir desde el navegador
+        displayTrack.onended = stopSharingScreen;
         setIsScreenSharing(true);
         toast.info('Compartiendo pantalla');
       } catch (error) {
@@ -498,6 +835,107 @@ export default function MeetingRoom() {
     );
   }
 
+  // Pantalla de contraseña antes de iniciar media y chat
+  if (requiresPassword && !isPasswordVerified) {
+    return (
+      <MeetingPasswordGate
+        meetingId={meeting.id}
+        meetingName={meeting.name}
+        onVerified={() => setIsPasswordVerified(true)}
+        onCancel={() => navigate('/dashboard')}
+      />
+    );
+  }
+
+  // Pantalla cuando la reunión está bloqueada o el anfitrión nos expulsó
+  if (rejection) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="max-w-sm text-center" role="alert">
+          <ShieldX className="mx-auto h-12 w-12 text-destructive" />
+          <h2 className="mt-4 text-xl font-semibold text-foreground">
+            {rejection === 'removed' ? 'Fuiste expulsado de la reunión' : 'La reunión está bloqueada'}
+          </h2>
+          <p className="mt-2 text-muted-foreground">
+            {rejection === 'removed'
+              ? 'El anfitrión te retiró de la llamada y no puedes volver a unirte.'
+              : 'El anfitrión no está aceptando nuevos participantes en este momento.'}
+          </p>
+          <Button className="mt-6" onClick={() => navigate('/dashboard')}>
+            Volver al inicio
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Pantalla previa: vista de cámara, prueba de micrófono y dispositivos
+  if (!hasJoined) {
+    return (
+      <PreJoinScreen
+        meetingName={meeting.name}
+        userId={user.id}
+        userName={`${user.firstName} ${user.lastName}`.trim()}
+        avatarUrl={user.avatar}
+        initialAudio={isAudioOn}
+        initialVideo={isVideoOn}
+        receiveOnly={!canPublishMedia}
+        onJoin={({ audio, video }) => {
+          if (meeting.settings?.locked && !canModerate) {
+            setRejection('locked');
+            return;
+          }
+          setIsAudioOn(audio);
+          setIsVideoOn(video);
+          setHasJoined(true);
+        }}
+        onCancel={() => navigate('/dashboard')}
+      />
+    );
+  }
+
+  // Pantalla de sala de espera mientras el anfitrión decide
+  if (admissionState === 'waiting' || admissionState === 'idle') {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="max-w-sm text-center" role="status" aria-live="polite">
+          <Hourglass className="mx-auto h-12 w-12 animate-pulse text-primary" />
+          <h2 className="mt-4 text-xl font-semibold text-foreground">
+            {meeting.name || 'Reunión'}
+          </h2>
+          <p className="mt-2 text-muted-foreground">
+            {admissionState === 'waiting'
+              ? 'Estás en la sala de espera. El anfitrión te admitirá en breve.'
+              : 'Conectando con la sala de espera...'}
+          </p>
+          <Button variant="outline" className="mt-6" onClick={() => navigate('/dashboard')}>
+            Salir
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Pantalla cuando el anfitrión rechaza la solicitud
+  if (admissionState === 'denied') {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="max-w-sm text-center" role="alert">
+          <ShieldX className="mx-auto h-12 w-12 text-destructive" />
+          <h2 className="mt-4 text-xl font-semibold text-foreground">
+            No se te permitió entrar
+          </h2>
+          <p className="mt-2 text-muted-foreground">
+            El anfitrión rechazó tu solicitud para unirte a la reunión.
+          </p>
+          <Button className="mt-6" onClick={() => navigate('/dashboard')}>
+            Volver al Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen flex-col bg-background">
       {/* Header */}
@@ -529,6 +967,11 @@ export default function MeetingRoom() {
                   {remotePeerCount + 1} en llamada
                 </span>
               </>
+            ) : isReconnecting ? (
+              <>
+                <Wifi className="h-4 w-4 animate-pulse text-yellow-500" />
+                <span className="text-xs text-muted-foreground">Reconectando...</span>
+              </>
             ) : voiceError ? (
               <>
                 <WifiOff className="h-4 w-4 text-destructive" />
@@ -541,80 +984,52 @@ export default function MeetingRoom() {
               </>
             )}
           </div>
-          <Button variant="ghost" size="icon">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLayout(layout === 'gallery' ? 'speaker' : 'gallery')}
+            aria-label={layout === 'gallery' ? 'Cambiar a vista de orador' : 'Cambiar a vista de galería'}
+          >
+            {layout === 'gallery' ? <SquareUser className="h-5 w-5" /> : <LayoutGrid className="h-5 w-5" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsDiagnosticsOpen(true)}
+            aria-label="Diagnóstico de conexión"
+          >
+            <Activity className="h-5 w-5" />
+          </Button>
+          {canManageSettings && (
+            <HostControlsMenu settings={meeting.settings ?? {}} onSettingsChange={handleSettingsChange} />
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsDeviceSettingsOpen(true)}
+            aria-label="Configuración de audio y video"
+          >
             <Settings className="h-5 w-5" />
           </Button>
         </div>
       </header>
 
+      {activeRecording && (
+        <RecordingBanner recording={activeRecording} onStop={isRecording ? handleToggleRecording : undefined} />
+      )}
+
       {/* Main content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Video area */}
         <main className="flex flex-1 flex-col min-h-0">
-          {/* Video grid */}
-          <div className="flex-1 p-4 min-h-0">
-            <div
-              className={`grid gap-4 w-full h-full
-                ${Object.keys(remoteStreams).length + 1 <= 1
-                  ? "grid-cols-1"
-                  : Object.keys(remoteStreams).length + 1 === 2
-                    ? "grid-cols-2"
-                    : Object.keys(remoteStreams).length + 1 <= 4
-                      ? "grid-cols-2"
-                      : "grid-cols-3"
-                }
-              `}
-            >
-
-              {/* Remote videos */}
-              {Object.entries(remoteStreams).map(([peerId, stream]) => (
-                <div
-                  key={peerId}
-                  className="relative flex h-full max-h-[calc(100vh-260px)] min-h-[260px] w-full max-w-5xl items-center justify-center rounded-xl bg-black overflow-hidden"
-                >
-                  <video
-                    autoPlay
-                    playsInline
-                    ref={(el) => {
-                      if (el) el.srcObject = stream;
-                    }}
-                    className="h-full w-full object-contain"
-                  />
-
-                  <div className="absolute bottom-3 left-3 flex items-center gap-2 rounded-lg bg-background/80 px-3 py-1.5 backdrop-blur-sm">
-                    <span className="text-sm font-medium text-foreground">
-                      Participante {peerId.substring(0, 4)}
-                    </span>
-                  </div>
-                </div>
-              ))}
-
-              {/* Main video (self) */}
-              <div className="relative flex h-full max-h-[calc(100vh-260px)] min-h-[260px] w-full max-w-5xl items-center justify-center rounded-xl bg-black overflow-hidden">
-                {isVideoOn ? (
-                  <video
-                    ref={localVideoRef}
-                    autoPlay
-                    muted
-                    playsInline
-                    className="h-full w-full object-contain"
-                  />
-                ) : (
-                  <Avatar className="h-24 w-24">
-                    <AvatarImage src={user.avatar} alt={user.firstName} />
-                    <AvatarFallback className="bg-primary text-3xl text-primary-foreground">
-                      {user.firstName.charAt(0).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                )}
-                <div className="absolute bottom-3 left-3 flex items-center gap-2 rounded-lg bg-background/80 px-3 py-1.5 backdrop-blur-sm">
-                  <span className="text-sm font-medium text-foreground">
-                    {user.firstName} {user.lastName} (Tú)
-                  </span>
-                  {!isAudioOn && <MicOff className="h-4 w-4 text-destructive" />}
-                </div>
-              </div>
-            </div>
+          {/* Video gallery / speaker view */}
+          <div className="relative flex-1 p-4 min-h-0">
+            {layout === 'speaker' ? (
+              <SpeakerView participants={galleryParticipants} activeSpeakerId={dominantSpeaker} />
+            ) : (
+              <VideoGallery participants={galleryParticipants} />
+            )}
+            <FloatingReactions reactions={reactions} />
           </div>
 
           {/* Controls */}
@@ -624,6 +1039,8 @@ export default function MeetingRoom() {
               size="lg"
               className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
               onClick={toggleAudio}
+              disabled={!canPublishMedia}
+              title={canPublishMedia ? undefined : 'Los espectadores no pueden activar el micrófono'}
             >
               {isAudioOn ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
             </Button>
@@ -633,6 +1050,8 @@ export default function MeetingRoom() {
               size="lg"
               className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
               onClick={toggleVideo}
+              disabled={!canPublishMedia}
+              title={canPublishMedia ? undefined : 'Los espectadores no pueden activar la cámara'}
             >
               {isVideoOn ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
             </Button>
@@ -642,32 +1061,77 @@ export default function MeetingRoom() {
               size="lg"
               className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
               onClick={toggleScreenShare}
+              disabled={!canShareScreen && !isScreenSharing}
+              title={canShareScreen ? undefined : screenShareDeniedMessage}
             >
               {isScreenSharing ? <MonitorOff className="h-5 w-5" /> : <Monitor className="h-5 w-5" />}
             </Button>
 
+            {(canRecord || isRecording) && (
+              <Button
+                variant={isRecording ? 'destructive' : 'secondary'}
+                size="lg"
+                className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
+                onClick={handleToggleRecording}
+                disabled={!isRecording && Boolean(activeRecording)}
+                aria-pressed={isRecording}
+                aria-label={isRecording ? 'Detener grabación' : 'Grabar reunión'}
+                title={!isRecording && activeRecording ? 'Ya hay una grabación en curso' : undefined}
+              >
+                {isRecording
+                  ? <Square className="h-5 w-5 fill-current" />
+                  : <Circle className="h-5 w-5 fill-current text-destructive" />}
+              </Button>
+            )}
+
+            <Button
+              variant={isHandRaised ? 'default' : 'secondary'}
+              size="lg"
+              className={`h-12 w-12 rounded-full sm:h-14 sm:w-14 ${isHandRaised ? 'bg-amber-400 text-amber-950 hover:bg-amber-400/90' : ''}`}
+              onClick={toggleHand}
+              aria-pressed={isHandRaised}
+              aria-label={isHandRaised ? 'Bajar la mano' : 'Levantar la mano'}
+            >
+              <Hand className="h-5 w-5" />
+            </Button>
+
+            <ReactionPicker onReact={sendReaction} />
+
             <Button
               variant={isChatOpen ? 'default' : 'secondary'}
               size="lg"
-              className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
+              className="relative h-12 w-12 rounded-full sm:h-14 sm:w-14"
               onClick={() => {
                 setIsChatOpen(!isChatOpen);
                 setIsParticipantsOpen(false);
               }}
+              aria-label={
+                !isChatOpen && chatUnreadTotal > 0 ? `Abrir chat (${chatUnreadTotal} sin leer)` : 'Chat'
+              }
             >
               <MessageSquare className="h-5 w-5" />
+              {!isChatOpen && chatUnreadTotal > 0 && (
+                <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs font-semibold text-destructive-foreground">
+                  {chatUnreadTotal > 99 ? '99+' : chatUnreadTotal}
+                </span>
+              )}
             </Button>
 
             <Button
               variant={isParticipantsOpen ? 'default' : 'secondary'}
               size="lg"
-              className="h-12 w-12 rounded-full sm:h-14 sm:w-14"
+              className="relative h-12 w-12 rounded-full sm:h-14 sm:w-14"
               onClick={() => {
                 setIsParticipantsOpen(!isParticipantsOpen);
                 setIsChatOpen(false);
               }}
             >
               <Users className="h-5 w-5" />
+              {canModerate && waitingQueue.length > 0 && (
+                <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs font-semibold text-destructive-foreground">
+                  {waitingQueue.length}
+                </span>
+              )}
             </Button>
 
             <Button
@@ -683,75 +1147,43 @@ export default function MeetingRoom() {
 
         {/* Sidebar - Chat */}
         {isChatOpen && (
-          <aside className="fixed inset-y-0 right-0 z-50 flex h-full w-full max-w-sm flex-col border-l border-border bg-card shadow-lg lg:static lg:h-auto lg:w-80">
-            <div className="flex items-center justify-between border-b border-border p-4">
-              <div className="flex items-center gap-2">
-                <h2 className="font-semibold text-foreground">Chat</h2>
-                {chatConnectionState === 'connected' ? (
-                  <span className="flex h-2 w-2 rounded-full bg-green-500" />
-                ) : chatConnectionState === 'connecting' ? (
-                  <Loader2 className="h-3 w-3 animate-spin text-yellow-500" />
-                ) : (
-                  <span className="flex h-2 w-2 rounded-full bg-red-500" />
-                )}
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setIsChatOpen(false)}
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-
-            <ScrollArea className="flex-1 p-4">
-              {isLoadingHistory ? (
-                <div className="flex items-center justify-center py-8">
-                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-                </div>
-              ) : messages.length === 0 ? (
-                <p className="text-center text-sm text-muted-foreground">
-                  No hay mensajes aún
-                </p>
-              ) : (
-                <div className="space-y-4">
-                  {messages.map((msg) => (
-                    <div
-                      key={msg.messageId}
-                      className={`flex flex-col ${msg.userId === user.id ? 'items-end' : 'items-start'
-                        }`}
-                    >
-                      <span className="text-xs text-muted-foreground">
-                        {msg.userName ?? 'Usuario'}
-                      </span>
-                      <div
-                        className={`mt-1 rounded-lg px-3 py-2 ${msg.userId === user.id
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted text-foreground'
-                          }`}
-                      >
-                        <p className="text-sm">{msg.message}</p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </ScrollArea>
-
-            <form onSubmit={handleSendMessage} className="border-t border-border p-4">
-              <div className="flex gap-2">
-                <Input
-                  value={chatMessage}
-                  onChange={(e) => setChatMessage(e.target.value)}
-                  placeholder="Escribe un mensaje..."
-                  className="flex-1"
-                />
-                <Button type="submit" size="icon" disabled={!chatMessage.trim()}>
-                  <Send className="h-4 w-4" />
-                </Button>
-              </div>
-            </form>
-          </aside>
+          <ChatPanel
+            messages={messages}
+            threads={chatThreads}
+            connectionState={chatConnectionState}
+            isLoadingHistory={isLoadingHistory}
+            hasMoreHistory={hasMoreChatHistory}
+            isLoadingOlder={isLoadingOlderChat}
+            onLoadOlder={loadOlderChatMessages}
+            onSearchHistory={searchChatMessages}
+            currentUserId={user.id}
+            participants={mentionableUsers}
+            canDeleteAny={canModerate}
+            exportMeeting={canExportChat ? meeting : null}
+            conversationId={chatConversationId}
+            unreadCounts={chatUnreadCounts}
+            firstUnreadMessageId={chatFirstUnreadIds[chatConversationId]}
+            onConversationChange={setChatConversationId}
+            canMessagePrivately={canSendPrivateChat}
+            deliveryStatus={chatDeliveryStatus}
+            onRetry={retryChatMessage}
+            onDiscard={discardChatMessage}
+            onSend={sendChatMessage}
+            typingByConversation={typingByConversation}
+            onTyping={notifyTyping}
+            onStopTyping={stopTyping}
+            onUpload={uploadChatAttachment}
+            onEdit={(messageId, text, mentions) =>
+              editChatMessage(messageId, text, mentions).catch(() => toast.error('No se pudo editar el mensaje'))
+            }
+            onDelete={(messageId) =>
+              deleteChatMessage(messageId).catch(() => toast.error('No se pudo eliminar el mensaje'))
+            }
+            onToggleReaction={(messageId, emoji) =>
+              toggleChatReaction(messageId, emoji).catch(() => toast.error('No se pudo guardar la reacción'))
+            }
+            onClose={() => setIsChatOpen(false)}
+          />
         )}
 
 
@@ -782,68 +1214,143 @@ export default function MeetingRoom() {
             <ScrollArea className="flex-1">
               <div className="p-4 space-y-4">
 
+                {/* WAITING ROOM (host y coanfitriones) */}
+                {canModerate && (
+                  <WaitingRoomPanel
+                    queue={waitingQueue}
+                    onAdmit={admitParticipant}
+                    onDeny={denyParticipant}
+                    onAdmitAll={admitAllParticipants}
+                  />
+                )}
+
+                {/* MANOS LEVANTADAS (host y coanfitriones) */}
+                {canModerate && (
+                  <RaisedHandsPanel
+                    hands={raisedHands}
+                    getName={(userId) =>
+                      usersOnline?.users?.find((online) => online.odId === userId)?.odName || 'Participante'
+                    }
+                    onLower={lowerHand}
+                    onLowerAll={lowerAllHands}
+                  />
+                )}
+
                 {/* LOCAL USER */}
                 <div className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted">
-                  <Avatar className="h-10 w-10">
-                    <AvatarImage src={user.avatar} alt={user.firstName} />
-                    <AvatarFallback className="bg-primary text-primary-foreground">
-                      {user.firstName.charAt(0).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
+                  <div className="relative">
+                    <Avatar
+                      className={`h-10 w-10 ring-offset-2 ring-offset-card ${speaking.local && isAudioOn ? 'ring-2 ring-green-500' : ''}`}
+                    >
+                      <AvatarImage src={user.avatar} alt={user.firstName} />
+                      <AvatarFallback className="bg-primary text-primary-foreground">
+                        {user.firstName.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span
+                      className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-card ${PRESENCE_DOT_CLASSES[localPresence]}`}
+                      aria-hidden="true"
+                    />
+                  </div>
 
                   <div className="flex-1">
                     <p className="text-sm font-medium text-foreground">
                       {user.firstName} {user.lastName}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {isHost ? 'Anfitrión' : 'Tú'}
+                      Tú · {ROLE_LABELS[role]} · {PRESENCE_LABELS[localPresence]}
                     </p>
                   </div>
 
                   <div className="flex items-center gap-1">
+                    {isHandRaised && <Hand className="h-4 w-4 text-amber-500" aria-label="Mano levantada" />}
                     {!isAudioOn && <MicOff className="h-4 w-4 text-muted-foreground" />}
                     {!isVideoOn && <VideoOff className="h-4 w-4 text-muted-foreground" />}
                   </div>
                 </div>
 
-                {/* REMOTE MINI VIDEOS */}
-                <div className="space-y-3">
-                  {Object.entries(remoteStreams).map(([peerId, stream]) => {
-                    // Normalizamos nombre del participante
-                    const participant = usersOnline?.users?.find(u => u.odId === peerId);
-                    const displayName = participant?.odName || `Usuario ${peerId.slice(0, 6)}`;
-                    
-
-
+                {/* REMOTE PARTICIPANTS */}
+                <div className="space-y-4">
+                  {PRESENCE_GROUPS.map(({ state, label }) => {
+                    const rows = remoteParticipantRows.filter((row) => row.presence === state);
+                    if (rows.length === 0) return null;
                     return (
-                      <div
-                        key={peerId}
-                        className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted"
-                      >
-                        {/* Mini video */}
-                        <div className="h-14 w-20 bg-black rounded overflow-hidden">
-                          <video
-                            autoPlay
-                            playsInline
-                            ref={(el) => {
-                              if (el) el.srcObject = stream;
-                            }}
-                            className="h-full w-full object-cover"
-                            muted
-                          />
-                        </div>
-
-                        {/* Nombre */}
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-foreground">{displayName}</p>
-                          <p className="text-xs text-muted-foreground">En llamada</p>
-                        </div>
-
-                        {/* Estado mic/cam (no tienes datos remotos aún, mostramos iconos) */}
-                        <div className="flex items-center gap-1">
-                          <Mic className="h-4 w-4 text-muted-foreground" />
-                          <Video className="h-4 w-4 text-muted-foreground" />
-                        </div>
+                      <div key={state} className="space-y-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                          {label} ({rows.length})
+                        </p>
+                        {rows.map(({ userId, name, participant, presence }) => {
+                          const participantRole = getMeetingRole(meeting, userId);
+                          const canModerateParticipant = canActOn(role, participantRole);
+                          const handPosition = getHandPosition(userId);
+                          return (
+                            <div
+                              key={userId ?? participant?.id}
+                              className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted"
+                            >
+                              <div className="relative">
+                                <Avatar
+                                  className={`h-10 w-10 ring-offset-2 ring-offset-card ${participant?.isSpeaking ? 'ring-2 ring-green-500' : ''}`}
+                                >
+                                  <AvatarFallback className="bg-muted text-foreground">
+                                    {name.charAt(0).toUpperCase()}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span
+                                  className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-card ${PRESENCE_DOT_CLASSES[presence]}`}
+                                  aria-hidden="true"
+                                />
+                              </div>
+
+                              <div className="min-w-0 flex-1">
+                                <p className="truncate text-sm font-medium text-foreground">{name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {ROLE_LABELS[participantRole]} ·{' '}
+                                  {participant?.isReconnecting
+                                    ? 'Reconectando...'
+                                    : presence === 'in-call' && !participant
+                                      ? 'Conectando...'
+                                      : PRESENCE_LABELS[presence]}
+                                </p>
+                              </div>
+
+                              {handPosition && (
+                                <span
+                                  className="flex items-center gap-0.5 text-xs font-semibold text-amber-500"
+                                  aria-label={`Mano levantada, turno ${handPosition}`}
+                                >
+                                  <Hand className="h-4 w-4" aria-hidden="true" />
+                                  {handPosition}
+                                </span>
+                              )}
+
+                              {participant && (
+                                <div className="flex items-center gap-1">
+                                  {participant.isAudioOn
+                                    ? <Mic className="h-4 w-4 text-muted-foreground" />
+                                    : <MicOff className="h-4 w-4 text-muted-foreground" />}
+                                  {participant.isVideoOn
+                                    ? <Video className="h-4 w-4 text-muted-foreground" />
+                                    : <VideoOff className="h-4 w-4 text-muted-foreground" />}
+                                </div>
+                              )}
+
+                              {userId && (canModerateParticipant || canManageRoles) && (
+                                <ParticipantModerationMenu
+                                  participantName={name}
+                                  role={participantRole}
+                                  isAudioOn={participant?.isAudioOn ?? true}
+                                  isVideoOn={participant?.isVideoOn ?? true}
+                                  canModerate={canModerateParticipant}
+                                  canManageRoles={canManageRoles}
+                                  onAction={(action) => handleModerate(userId, name, action)}
+                                  onRoleChange={(newRole) => handleRoleChange(userId, name, newRole)}
+                                  onTransferHost={() => handleTransferHost(userId, name)}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
                       </div>
                     );
                   })}
@@ -856,10 +1363,28 @@ export default function MeetingRoom() {
       </div>
 
       {/* Audio elements */}
-      <audio ref={localAudioRef} autoPlay muted playsInline style={{ display: "none" }} />
       {Object.entries(remoteStreams).map(([peerId, stream]) => (
-        <RemoteAudio key={peerId} peerId={peerId} stream={stream} />
+        <RemoteAudio key={peerId} peerId={peerId} stream={stream} sinkId={devicePreferences.audioOutputId} />
       ))}
+
+      <CallDiagnosticsSheet
+        open={isDiagnosticsOpen}
+        onOpenChange={setIsDiagnosticsOpen}
+        stats={peerStats}
+        iceServers={callManager.getIceServers()}
+        getPeerName={getPeerDisplayName}
+      />
+
+      <DeviceSettingsDialog
+        open={isDeviceSettingsOpen}
+        onOpenChange={setIsDeviceSettingsOpen}
+        audioInputs={devices.audioInputs}
+        videoInputs={devices.videoInputs}
+        audioOutputs={devices.audioOutputs}
+        supportsOutputSelection={devices.supportsOutputSelection}
+        preferences={devicePreferences}
+        onChange={changeDevice}
+      />
     </div>
   );
 }
@@ -1,23 +1,81 @@
 import { io, Socket } from 'socket.io-client';
 import { useAuthStore } from '@/store/authStore';
-import { ChatMessage, fetchMeetingMessages } from './meetings';
+import { useChatOutboxStore } from '@/store/chatOutboxStore';
+import type { MeetingRole, MeetingSettings } from '@/store/meetingStore';
+import {
+  ChatAttachment,
+  ChatHistoryCursor,
+  ChatMention,
+  ChatMessage,
+  ChatSearchQuery,
+  fetchMeetingMessages,
+  getMeetingAccessToken,
+  searchMeetingMessages,
+  uploadChatAttachment,
+} from './meetings';
 
 const CHAT_SERVICE_URL = import.meta.env.VITE_CHAT_SERVICE_URL ?? '';
 
+/** Time to wait for the server to acknowledge an edit, delete or reaction. */
+const ACK_TIMEOUT_MS = 5000;
+
+/** Minimum time between two `typing:start` events while the user keeps typing. */
+const TYPING_THROTTLE_MS = 3000;
+
+/** Without keystrokes for this long, typing is considered stopped. */
+const TYPING_IDLE_MS = 4000;
+
 /**
  * Eventos emitidos por el cliente (según spec eisc-chat)
  */
 export type ClientChatEvent = 
   | 'newUser'      // Registrar userId después de conectar
   | 'joinRoom'     // Suscribirse a sala de reunión
-  | 'chat:message'; // Enviar mensaje
+  | 'chat:message' // Enviar mensaje
+  | 'chat:private' // Enviar un mensaje privado; el servidor solo lo entrega al autor y al destinatario
+  | 'chat:edit'    // Editar un mensaje propio
+  | 'chat:delete'  // Borrar un mensaje propio (o cualquiera, si es host)
+  | 'chat:react'   // Añadir o quitar una reacción a un mensaje
+  | 'lobby:join'    // Solicitar acceso a una reunión con sala de espera
+  | 'lobby:admit'   // Host admite a un participante en espera
+  | 'lobby:deny'    // Host rechaza a un participante en espera
+  | 'lobby:admitAll' // Host admite a toda la cola
+  | 'lobby:leave'   // Abandonar la sala de espera sin haber sido admitido
+  | 'meeting:settings' // Host difunde cambios de configuración
+  | 'moderation:action' // Host silencia, apaga la cámara o expulsa a un participante
+  | 'meeting:roles' // Host difunde cambios de roles o la transferencia de anfitrión
+  | 'hand:raise'    // Levantar la mano
+  | 'hand:lower'    // Bajar la mano propia, o la de otro participante (host)
+  | 'hand:lowerAll' // Host baja todas las manos
+  | 'reaction:send' // Enviar una reacción efímera a la sala
+  | 'typing:start'  // El usuario está escribiendo (limitado en frecuencia)
+  | 'typing:stop'   // El usuario dejó de escribir o envió el mensaje
+  | 'presence:update' // Estado de presencia del usuario local
+  | 'recording:update'; // El host empezó o detuvo una grabación
 
 /**
  * Eventos recibidos del servidor (según spec eisc-chat)
  */
 export type ServerChatEvent = 
   | 'chat:message'  // Mensaje entrante
+  | 'chat:private'  // Mensaje privado enviado o recibido por el usuario local
+  | 'chat:capabilities' // Funciones del chat que el servidor soporta en la sala
+  | 'chat:edited'   // Mensaje editado
+  | 'chat:deleted'  // Mensaje borrado
+  | 'chat:reactions' // Reacciones vigentes de un mensaje
   | 'usersOnline'   // Lista de usuarios o conteo por sala
+  | 'lobby:queue'   // Cola de espera actualizada (solo host)
+  | 'lobby:admitted' // El host admitió al usuario
+  | 'lobby:denied'  // El host rechazó al usuario
+  | 'meeting:settings' // Configuración de la reunión actualizada
+  | 'moderation:action' // Acción del host dirigida al usuario local
+  | 'meeting:roles' // Roles de la reunión actualizados
+  | 'hand:queue'    // Cola ordenada de manos levantadas
+  | 'reaction'      // Reacción de otro participante
+  | 'typing'        // Otro participante empezó o dejó de escribir
+  | 'presence'      // Cambio de presencia de un participante
+  | 'recording'     // Estado de grabación de la reunión
+  | 'room:rejected' // El servidor rechazó la entrada (reunión bloqueada o usuario expulsado)
   | 'error';
 
 /**
@@ -30,6 +88,77 @@ export interface SendMessagePayload {
   messageId: string;
   message: string;
   timestamp: string;
+  /** Participantes mencionados con `@nombre`; el servidor los usa para notificarles. */
+  mentions?: ChatMention[];
+  /** Mensaje al que responde, para agrupar hilos. */
+  parentMessageId?: string;
+  /** Destinatario de un mensaje privado; viaja por `chat:private` y el servidor solo lo entrega a él y al autor. */
+  recipientId?: string;
+  recipientName?: string;
+  /** Archivos ya subidos con `uploadAttachment`. */
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * Opciones al enviar un mensaje
+ */
+export interface SendMessageOptions {
+  mentions?: ChatMention[];
+  parentMessageId?: string;
+  /** Envía el mensaje en privado a este participante. */
+  recipient?: ChatMention;
+  /** Archivos ya subidos con `uploadAttachment`. */
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * Payload de chat:edited con el nuevo contenido del mensaje
+ */
+export interface MessageEditedPayload {
+  meetingId: string;
+  messageId: string;
+  message: string;
+  mentions?: ChatMention[];
+  editedAt: string;
+}
+
+/**
+ * Payload de chat:deleted
+ */
+export interface MessageDeletedPayload {
+  meetingId: string;
+  messageId: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+/**
+ * Payload de chat:reactions con el mapa completo emoji → usuarios
+ */
+export interface MessageReactionsPayload {
+  meetingId: string;
+  messageId: string;
+  reactions: Record<string, string[]>;
+}
+
+/**
+ * Respuesta (ack) del servidor a mensajes, ediciones, borrados y reacciones
+ */
+interface ChatAck {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Payload de chat:capabilities; un servidor que no lo envía no soporta mensajes privados
+ */
+export interface ChatCapabilitiesPayload {
+  meetingId: string;
+  /**
+   * El servidor entrega `chat:private` (y sus ediciones, borrados, reacciones e indicadores de
+   * escritura) solo al autor y al destinatario, y filtra el historial y la búsqueda según quién pide.
+   */
+  privateMessages: boolean;
 }
 
 /**
@@ -37,10 +166,197 @@ export interface SendMessagePayload {
  */
 export interface UsersOnlinePayload {
   meetingId: string;
-  users: Array<{ odId: string; odName?: string }>;
+  /** `presence` llega cuando el servidor ya la conoce; si no, se completa con eventos `presence`. */
+  users: Array<{ odId: string; odName?: string; presence?: PresenceState }>;
   count: number;
 }
 
+/**
+ * Presencia de un participante: activo, ausente (pestaña oculta) o en la llamada
+ */
+export type PresenceState = 'active' | 'away' | 'in-call';
+
+/**
+ * Payload de presence
+ */
+export interface PresencePayload {
+  meetingId: string;
+  userId: string;
+  state: PresenceState;
+  updatedAt: string;
+}
+
+/**
+ * Payload de recording; `startedAt` solo viene mientras se graba. El servidor fija `userId` con el
+ * usuario autenticado y solo lo difunde si su rol puede grabar
+ */
+export interface RecordingPayload {
+  meetingId: string;
+  isRecording: boolean;
+  userId: string;
+  userName?: string;
+  startedAt?: string;
+}
+
+/**
+ * Payload de typing; `recipientId` indica que escribe un mensaje privado
+ */
+export interface TypingPayload {
+  meetingId: string;
+  userId: string;
+  userName?: string;
+  isTyping: boolean;
+  recipientId?: string;
+}
+
+/**
+ * Usuario esperando admisión en la sala de espera
+ */
+export interface LobbyEntry {
+  userId: string;
+  userName?: string;
+  requestedAt: string;
+}
+
+/**
+ * Payload de lobby:queue con la cola completa de la sala
+ */
+export interface LobbyQueuePayload {
+  meetingId: string;
+  entries: LobbyEntry[];
+}
+
+/**
+ * Payload de lobby:admitted / lobby:denied dirigido al usuario en espera
+ */
+export interface LobbyDecisionPayload {
+  meetingId: string;
+  userId: string;
+  reason?: string;
+}
+
+/**
+ * Payload de meeting:settings con la configuración vigente de la reunión; el servidor solo lo
+ * difunde si el emisor tiene un rol con `manageSettings`
+ */
+export interface MeetingSettingsPayload {
+  meetingId: string;
+  settings: MeetingSettings;
+  /** Lo fija el servidor con el usuario autenticado del socket; el cliente no lo envía. */
+  byUserId: string;
+}
+
+/**
+ * Payload de meeting:roles con el anfitrión y los roles vigentes; el servidor solo lo difunde si lo
+ * emite el anfitrión. Cuando el anfitrión se desconecta, el servidor traspasa el rol a quien siga en
+ * la sala (coanfitriones primero, luego participantes y espectadores), lo guarda y lo difunde en
+ * nombre del anfitrión saliente
+ */
+export interface MeetingRolesPayload {
+  meetingId: string;
+  hostUid: string;
+  roles: Record<string, MeetingRole>;
+  /** Lo fija el servidor: el emisor autenticado, o el anfitrión saliente en un traspaso. */
+  byUserId: string;
+}
+
+/**
+ * Participante con la mano levantada
+ */
+export interface RaisedHand {
+  userId: string;
+  userName?: string;
+  raisedAt: string;
+}
+
+/**
+ * Payload de hand:queue con las manos levantadas en orden de llegada
+ */
+export interface HandQueuePayload {
+  meetingId: string;
+  hands: RaisedHand[];
+}
+
+/**
+ * Emojis disponibles para reaccionar durante la llamada
+ */
+export type ReactionEmoji = '👍' | '👏' | '😂' | '❤️' | '🎉' | '😮';
+
+/**
+ * Payload de reaction; no se persiste, solo se muestra unos segundos
+ */
+export interface ReactionPayload {
+  meetingId: string;
+  reactionId: string;
+  userId: string;
+  userName?: string;
+  emoji: ReactionEmoji;
+  sentAt: string;
+}
+
+/**
+ * Acciones de moderación que el host aplica a un participante
+ */
+export type ModerationAction = 'mute' | 'disableCamera' | 'remove';
+
+/**
+ * Payload de moderation:action; el servidor comprueba que el emisor pueda moderar al destinatario
+ * y solo lo entrega a `targetUserId`
+ */
+export interface ModerationActionPayload {
+  meetingId: string;
+  action: ModerationAction;
+  targetUserId: string;
+  /** Lo fija el servidor con el usuario autenticado del socket; el cliente no lo envía. */
+  byUserId: string;
+}
+
+/**
+ * Motivo por el que el servidor rechaza la entrada a la sala
+ */
+export type RoomRejectionReason = 'locked' | 'removed';
+
+/**
+ * Payload de room:rejected
+ */
+export interface RoomRejectedPayload {
+  meetingId: string;
+  reason: RoomRejectionReason;
+}
+
+/**
+ * Estado de admisión del usuario local en la sala de espera
+ */
+export type AdmissionState = 'idle' | 'waiting' | 'admitted' | 'denied';
+
+/**
+ * Opciones de conexión al chat
+ */
+export interface ChatConnectOptions {
+  /** Solicita admisión (`lobby:join`) en lugar de unirse directamente a la sala. */
+  waitingRoom?: boolean;
+}
+
+/**
+ * Callback para mensajes editados
+ */
+export type MessageEditedCallback = (payload: MessageEditedPayload) => void;
+
+/**
+ * Callback para mensajes borrados
+ */
+export type MessageDeletedCallback = (payload: MessageDeletedPayload) => void;
+
+/**
+ * Callback para cambios en las reacciones de un mensaje
+ */
+export type MessageReactionsCallback = (payload: MessageReactionsPayload) => void;
+
+/**
+ * Callback para las capacidades del servidor de chat
+ */
+export type ChatCapabilitiesCallback = (payload: ChatCapabilitiesPayload) => void;
+
 /**
  * Callback para usuarios online
  */
@@ -51,6 +367,66 @@ export type UsersOnlineCallback = (payload: UsersOnlinePayload) => void;
  */
 export type MessageCallback = (message: ChatMessage) => void;
 
+/**
+ * Estado de entrega de un mensaje propio
+ */
+export type MessageDeliveryStatus = 'sending' | 'sent' | 'failed';
+
+/**
+ * Callback para cambios en el estado de entrega de un mensaje propio
+ */
+export type DeliveryStatusCallback = (messageId: string, status: MessageDeliveryStatus) => void;
+
+/**
+ * Callback para la cola de la sala de espera
+ */
+export type LobbyQueueCallback = (payload: LobbyQueuePayload) => void;
+
+/**
+ * Callback para cambios de configuración de la reunión
+ */
+export type MeetingSettingsCallback = (payload: MeetingSettingsPayload) => void;
+
+/**
+ * Callback para cambios de roles de la reunión
+ */
+export type MeetingRolesCallback = (payload: MeetingRolesPayload) => void;
+
+/**
+ * Callback para la cola de manos levantadas
+ */
+export type HandQueueCallback = (payload: HandQueuePayload) => void;
+
+/**
+ * Callback para reacciones recibidas
+ */
+export type ReactionCallback = (payload: ReactionPayload) => void;
+
+/**
+ * Callback para indicadores de escritura
+ */
+export type TypingCallback = (payload: TypingPayload) => void;
+
+/**
+ * Callback para cambios de presencia
+ */
+export type PresenceCallback = (payload: PresencePayload) => void;
+
+/**
+ * Callback para el estado de grabación
+ */
+export type RecordingCallback = (payload: RecordingPayload) => void;
+
+/**
+ * Callback para acciones de moderación recibidas
+ */
+export type ModerationActionCallback = (payload: ModerationActionPayload) => void;
+
+/**
+ * Callback para rechazos de entrada a la sala
+ */
+export type RoomRejectedCallback = (payload: RoomRejectedPayload) => void;
+
 /**
  * Callback para errores
  */
@@ -79,10 +455,35 @@ class ChatService {
   private currentUserId: string | null = null;
   private currentUserName: string | null = null;
   private messageCallbacks: Set<MessageCallback> = new Set();
+  private messageEditedCallbacks: Set<MessageEditedCallback> = new Set();
+  private messageDeletedCallbacks: Set<MessageDeletedCallback> = new Set();
+  private messageReactionsCallbacks: Set<MessageReactionsCallback> = new Set();
   private usersOnlineCallbacks: Set<UsersOnlineCallback> = new Set();
+  private capabilities: ChatCapabilitiesPayload | null = null;
+  private capabilitiesCallbacks: Set<ChatCapabilitiesCallback> = new Set();
   private errorCallbacks: Set<ErrorCallback> = new Set();
   private connectionState: ChatConnectionState = 'disconnected';
   private stateChangeCallbacks: Set<(state: ChatConnectionState) => void> = new Set();
+  private lobbyQueueCallbacks: Set<LobbyQueueCallback> = new Set();
+  private admissionState: AdmissionState = 'idle';
+  private admissionCallbacks: Set<(state: AdmissionState) => void> = new Set();
+  private meetingSettingsCallbacks: Set<MeetingSettingsCallback> = new Set();
+  private moderationCallbacks: Set<ModerationActionCallback> = new Set();
+  private meetingRolesCallbacks: Set<MeetingRolesCallback> = new Set();
+  private roomRejectedCallbacks: Set<RoomRejectedCallback> = new Set();
+  private handQueueCallbacks: Set<HandQueueCallback> = new Set();
+  private reactionCallbacks: Set<ReactionCallback> = new Set();
+  private deliveryCallbacks: Set<DeliveryStatusCallback> = new Set();
+  private typingCallbacks: Set<TypingCallback> = new Set();
+  private presenceCallbacks: Set<PresenceCallback> = new Set();
+  private presenceState: PresenceState = 'active';
+  private recordingCallbacks: Set<RecordingCallback> = new Set();
+  private recordingStartedAt: string | null = null;
+  private lastTypingSentAt = 0;
+  private typingRecipientId: string | undefined;
+  private typingIdleTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Mensajes emitidos y pendientes de ack, para no enviarlos dos veces a la vez. */
+  private inFlightMessageIds: Set<string> = new Set();
 
   /**
    * Returns the current connection state.
@@ -98,12 +499,30 @@ class ChatService {
     return this.connectionState === 'connected' && this.socket?.connected === true;
   }
 
+  /**
+   * Whether the server of the current room routes private messages only to their participants.
+   * @remarks `false` until the server announces it in `chat:capabilities`, so private messages are
+   * never sent to a server that would hand them to the whole room.
+   */
+  supportsPrivateMessages(): boolean {
+    return this.capabilities?.privateMessages === true;
+  }
+
+  /**
+   * Returns the local user's admission state for the waiting room.
+   */
+  getAdmissionState(): AdmissionState {
+    return this.admissionState;
+  }
+
   /**
    * Connects to the chat service and joins the given meeting room.
    * @param meetingId Meeting identifier used to scope messages and presence.
+   * @param options Set `waitingRoom` to request admission before joining the room.
    * @remarks Requires an authenticated user with an idToken present in `authStore`.
+   * In waiting-room mode the room is joined only after the host emits `lobby:admitted`.
    */
-  connect(meetingId: string): void {
+  connect(meetingId: string, options: ChatConnectOptions = {}): void {
     console.log('[ChatService] Intentando conectar a sala:', meetingId);
     console.log('[ChatService] CHAT_SERVICE_URL:', CHAT_SERVICE_URL);
     
@@ -135,12 +554,16 @@ class ChatService {
 
     this.setConnectionState('connecting');
     this.currentMeetingId = meetingId;
+    this.setCapabilities(null);
 
     console.log('[ChatService] Creando conexión Socket.IO a:', CHAT_SERVICE_URL);
     
+    const meetingAccessToken = getMeetingAccessToken(meetingId);
     this.socket = io(CHAT_SERVICE_URL, {
       auth: {
         token: tokens.idToken,
+        // Reuniones con contraseña: prueba de verificación emitida por el backend
+        ...(meetingAccessToken && { meetingAccessToken }),
       },
       query: {
         meetingId,
@@ -166,8 +589,12 @@ class ChatService {
         this.socket?.emit('newUser', user.id);
       }
       
-      // Luego unirse a la sala
-      this.joinRoom(meetingId);
+      // Luego unirse a la sala, o pedir admisión si hay sala de espera
+      if (options.waitingRoom && this.admissionState !== 'admitted') {
+        this.requestAdmission(meetingId);
+      } else {
+        this.joinRoom(meetingId);
+      }
     });
 
     this.socket.on('connect_error', (error) => {
@@ -185,38 +612,348 @@ class ChatService {
    * Disconnects from the chat service and leaves the current room.
    */
   disconnect(): void {
+    this.clearTyping();
     if (this.socket) {
-      if (this.currentMeetingId) {
+      if (this.currentMeetingId && this.admissionState === 'waiting') {
+        this.leaveLobby(this.currentMeetingId);
+      } else if (this.currentMeetingId) {
         this.leaveRoom(this.currentMeetingId);
       }
       this.socket.disconnect();
       this.socket = null;
     }
     this.currentMeetingId = null;
+    this.setCapabilities(null);
     this.setConnectionState('disconnected');
+    this.setAdmissionState('idle');
   }
 
   /**
    * Sends a chat message to the current room via `chat:message` event.
-   * @param message Plain text message content.
+   * @param message Message content (chat markdown subset).
+   * @param options Mentioned participants, the message being replied to, uploaded attachments and,
+   * for private messages, the recipient.
+   * @returns The message as queued, for optimistic display; `null` when there is no room, or when the
+   * message is private and the server does not support private messages.
+   * @remarks Private messages go through `chat:private`, which the server only delivers to the author
+   * and the recipient; they are refused unless `supportsPrivateMessages()` is true.
+   *
+   * Every message goes through a persisted outbox: it is emitted right away when connected and
+   * otherwise delivered when the connection comes back. The server acknowledges it and ignores a
+   * `messageId` it already stored, so flushing the outbox again never duplicates messages.
    */
-  sendMessage(message: string): void {
-    if (!this.socket?.connected || !this.currentMeetingId) {
-      console.error('No hay conexión activa para enviar mensaje');
-      return;
+  sendMessage(
+    message: string,
+    { mentions = [], parentMessageId, recipient, attachments = [] }: SendMessageOptions = {}
+  ): ChatMessage | null {
+    if (!this.currentMeetingId) {
+      console.error('No hay una sala activa para enviar mensaje');
+      return null;
+    }
+    if (recipient && !this.supportsPrivateMessages()) {
+      console.error('El servidor del chat no admite mensajes privados');
+      return null;
     }
 
+    const { user } = useAuthStore.getState();
     const payload: SendMessagePayload = {
       meetingId: this.currentMeetingId,
-      userId: this.currentUserId ?? '',
-      userName: this.currentUserName ?? undefined,
+      userId: this.currentUserId ?? user?.id ?? '',
+      userName: this.currentUserName ?? (user ? `${user.firstName} ${user.lastName}`.trim() : undefined),
       messageId: crypto.randomUUID(),
       message: message.trim(),
       timestamp: new Date().toISOString(),
+      ...(mentions.length > 0 && { mentions }),
+      ...(parentMessageId && { parentMessageId }),
+      ...(recipient && { recipientId: recipient.userId, recipientName: recipient.userName }),
+      ...(attachments.length > 0 && { attachments }),
     };
 
-    console.log('[ChatService] Emitiendo chat:message:', payload);
-    this.socket.emit('chat:message', payload);
+    useChatOutboxStore.getState().enqueue(payload);
+    this.notifyDelivery(payload.messageId, 'sending');
+    if (this.isConnected()) {
+      void this.deliver(payload);
+    } else {
+      console.log('[ChatService] Sin conexión, mensaje en cola:', payload.messageId);
+    }
+    return payload;
+  }
+
+  /**
+   * Sends a failed message again.
+   * @param messageId Message queued by `sendMessage` whose delivery failed.
+   */
+  retryMessage(messageId: string): void {
+    const entry = useChatOutboxStore
+      .getState()
+      .entries.find((e) => e.payload.messageId === messageId);
+    if (!entry) return;
+
+    useChatOutboxStore.getState().setStatus(messageId, 'sending');
+    this.notifyDelivery(messageId, 'sending');
+    if (this.isConnected()) void this.deliver(entry.payload);
+  }
+
+  /**
+   * Drops a queued message without sending it.
+   * @param messageId Message queued by `sendMessage`.
+   */
+  discardMessage(messageId: string): void {
+    useChatOutboxStore.getState().remove(messageId);
+  }
+
+  /**
+   * Messages of a meeting still waiting in the outbox, e.g. after reloading the page.
+   * @param meetingId Meeting to look up.
+   */
+  getPendingMessages(meetingId: string): Array<{ message: ChatMessage; status: MessageDeliveryStatus }> {
+    return useChatOutboxStore
+      .getState()
+      .getEntries(meetingId)
+      .map((entry) => ({ message: entry.payload, status: entry.status }));
+  }
+
+  /**
+   * Uploads a file to the current room so it can be attached to a message.
+   * @param file File picked, dropped or pasted into the composer.
+   * @returns Attachment metadata to pass in `SendMessageOptions.attachments`.
+   * @throws Error when not in a room; ApiError when the upload fails.
+   */
+  async uploadAttachment(file: File): Promise<ChatAttachment> {
+    if (!this.currentMeetingId) {
+      throw new Error('No hay una reunión activa para adjuntar archivos');
+    }
+    return uploadChatAttachment(this.currentMeetingId, file);
+  }
+
+  /**
+   * Edits one of the local user's messages.
+   * @param messageId Message to edit.
+   * @param message New content.
+   * @param mentions Participants mentioned in the new content.
+   * @returns Resolves once the server accepts the edit; rejects if it refuses or does not answer.
+   */
+  async editMessage(messageId: string, message: string, mentions: ChatMention[] = []): Promise<void> {
+    await this.emitWithAck('chat:edit', {
+      meetingId: this.currentMeetingId,
+      messageId,
+      message: message.trim(),
+      mentions,
+      editedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Deletes a message. Authors can delete their own messages and hosts can delete any.
+   * @param messageId Message to delete.
+   * @returns Resolves once the server accepts the deletion; rejects if it refuses or does not answer.
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    await this.emitWithAck('chat:delete', { meetingId: this.currentMeetingId, messageId });
+  }
+
+  /**
+   * Adds or removes the local user's reaction to a message.
+   * @param messageId Message being reacted to.
+   * @param emoji Reaction emoji.
+   * @param add `true` to add the reaction, `false` to remove it.
+   * @remarks The server answers every change with the full reaction map in `chat:reactions`.
+   */
+  async reactToMessage(messageId: string, emoji: string, add: boolean): Promise<void> {
+    await this.emitWithAck('chat:react', {
+      meetingId: this.currentMeetingId,
+      messageId,
+      userId: this.currentUserId,
+      emoji,
+      add,
+    });
+  }
+
+  /**
+   * Admits a user waiting in the lobby (host only).
+   * @param userId Identifier of the waiting user.
+   */
+  admitParticipant(userId: string): void {
+    this.emitLobbyDecision('lobby:admit', userId);
+  }
+
+  /**
+   * Rejects a user waiting in the lobby (host only).
+   * @param userId Identifier of the waiting user.
+   */
+  denyParticipant(userId: string): void {
+    this.emitLobbyDecision('lobby:deny', userId);
+  }
+
+  /**
+   * Admits every user currently waiting in the lobby (host only).
+   */
+  admitAllParticipants(): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    this.socket.emit('lobby:admitAll', { meetingId: this.currentMeetingId });
+  }
+
+  /**
+   * Broadcasts updated meeting settings to everyone in the room (host only).
+   * @param settings Full settings object after the change.
+   * @remarks Persisting the change is the caller's job (`updateMeetingSettings`). The server drops
+   * it unless the sender's role can manage settings.
+   */
+  broadcastMeetingSettings(settings: MeetingSettings): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    const payload: Omit<MeetingSettingsPayload, 'byUserId'> = {
+      meetingId: this.currentMeetingId,
+      settings,
+    };
+    this.socket.emit('meeting:settings', payload);
+  }
+
+  /**
+   * Broadcasts the current host and roles to everyone in the room (host only).
+   * @param hostUid Current (or newly designated) host.
+   * @param roles Full role map keyed by user id.
+   * @remarks Persisting the change is the caller's job (`updateMeetingRoles`/`transferMeetingHost`).
+   * The server drops it unless the sender is the host. Handing the role over when the host leaves is
+   * done by the server, not through this method.
+   */
+  broadcastMeetingRoles(hostUid: string, roles: Record<string, MeetingRole>): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    const payload: Omit<MeetingRolesPayload, 'byUserId'> = {
+      meetingId: this.currentMeetingId,
+      hostUid,
+      roles,
+    };
+    this.socket.emit('meeting:roles', payload);
+  }
+
+  /**
+   * Applies a moderation action to a participant (host only).
+   * @param action `mute`, `disableCamera` or `remove`.
+   * @param targetUserId Identifier of the affected participant.
+   * @remarks The server authorizes the action against the sender's authenticated identity, stamps it
+   * as `byUserId` and delivers it only to the target. For `remove`, it also blocks the user from
+   * rejoining (later joins receive `room:rejected` with reason `removed`).
+   */
+  moderateParticipant(action: ModerationAction, targetUserId: string): void {
+    if (!this.socket?.connected || !this.currentMeetingId) {
+      console.error('No hay conexión activa para moderar la reunión');
+      return;
+    }
+    const payload: Omit<ModerationActionPayload, 'byUserId'> = {
+      meetingId: this.currentMeetingId,
+      action,
+      targetUserId,
+    };
+    console.log('[ChatService] Emitiendo moderation:action:', payload);
+    this.socket.emit('moderation:action', payload);
+  }
+
+  /**
+   * Raises the local user's hand; the server appends it to the room's queue.
+   */
+  raiseHand(): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    this.socket.emit('hand:raise', {
+      meetingId: this.currentMeetingId,
+      userId: this.currentUserId,
+      userName: this.currentUserName ?? undefined,
+    });
+  }
+
+  /**
+   * Lowers a raised hand.
+   * @param userId Hand to lower; defaults to the local user (lowering others is host only).
+   */
+  lowerHand(userId?: string): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    this.socket.emit('hand:lower', {
+      meetingId: this.currentMeetingId,
+      userId: userId ?? this.currentUserId,
+    });
+  }
+
+  /**
+   * Lowers every raised hand in the room (host only).
+   */
+  lowerAllHands(): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    this.socket.emit('hand:lowerAll', { meetingId: this.currentMeetingId });
+  }
+
+  /**
+   * Sends a transient emoji reaction to the room.
+   * @param emoji One of the supported reaction emojis.
+   * @returns The sent payload so the caller can render it locally, or null when disconnected.
+   * @remarks The server relays reactions without persisting them; the sender's own echo is ignored.
+   */
+  sendReaction(emoji: ReactionEmoji): ReactionPayload | null {
+    if (!this.socket?.connected || !this.currentMeetingId) return null;
+
+    const payload: ReactionPayload = {
+      meetingId: this.currentMeetingId,
+      reactionId: crypto.randomUUID(),
+      userId: this.currentUserId ?? '',
+      userName: this.currentUserName ?? undefined,
+      emoji,
+      sentAt: new Date().toISOString(),
+    };
+    this.socket.emit('reaction:send', payload);
+    return payload;
+  }
+
+  /**
+   * Reports that the local user is typing; call it on every keystroke.
+   * @param recipientId Recipient when typing a private message; the server only forwards it to them.
+   * @remarks `typing:start` is throttled to one event every few seconds, and `typing:stop` is sent
+   * automatically after a short pause without keystrokes.
+   */
+  notifyTyping(recipientId?: string): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+
+    const now = Date.now();
+    // Cambiar de conversación cuenta como empezar a escribir de nuevo
+    if (recipientId !== this.typingRecipientId) this.stopTyping();
+    if (now - this.lastTypingSentAt >= TYPING_THROTTLE_MS) {
+      this.lastTypingSentAt = now;
+      this.typingRecipientId = recipientId;
+      this.emitTyping('typing:start', recipientId);
+    }
+
+    if (this.typingIdleTimer) clearTimeout(this.typingIdleTimer);
+    this.typingIdleTimer = setTimeout(() => this.stopTyping(), TYPING_IDLE_MS);
+  }
+
+  /**
+   * Reports that the local user stopped typing (message sent, input cleared or blurred).
+   */
+  stopTyping(): void {
+    const wasTyping = this.lastTypingSentAt > 0;
+    const recipientId = this.typingRecipientId;
+    this.clearTyping();
+    if (wasTyping && this.socket?.connected && this.currentMeetingId) {
+      this.emitTyping('typing:stop', recipientId);
+    }
+  }
+
+  /**
+   * Publishes the local user's presence; it is sent again after every reconnection.
+   * @param state `active`, `away` while the tab is hidden, or `in-call`.
+   */
+  setPresence(state: PresenceState): void {
+    if (state === this.presenceState) return;
+    this.presenceState = state;
+    this.emitPresence();
+  }
+
+  /**
+   * Announces to the room that the local user started or stopped recording.
+   * @param isRecording Whether a recording is in progress.
+   * @remarks While recording, the notice is sent again after every reconnection so the banner does
+   * not disappear for the other participants.
+   */
+  setRecording(isRecording: boolean): void {
+    this.recordingStartedAt = isRecording ? new Date().toISOString() : null;
+    this.emitRecording();
   }
 
   /**
@@ -229,6 +966,57 @@ class ChatService {
     return () => this.messageCallbacks.delete(callback);
   }
 
+  /**
+   * Subscribes to the features announced by the server of the current room.
+   * @param callback Handler invoked on every `chat:capabilities`, and with `privateMessages: false`
+   * when the connection is reset.
+   * @returns Unsubscribe function.
+   */
+  onCapabilities(callback: ChatCapabilitiesCallback): () => void {
+    this.capabilitiesCallbacks.add(callback);
+    return () => this.capabilitiesCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to message edits made by any participant.
+   * @param callback Handler invoked for every `chat:edited`.
+   * @returns Unsubscribe function.
+   */
+  onMessageEdited(callback: MessageEditedCallback): () => void {
+    this.messageEditedCallbacks.add(callback);
+    return () => this.messageEditedCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to message deletions.
+   * @param callback Handler invoked for every `chat:deleted`.
+   * @returns Unsubscribe function.
+   */
+  onMessageDeleted(callback: MessageDeletedCallback): () => void {
+    this.messageDeletedCallbacks.add(callback);
+    return () => this.messageDeletedCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to reaction changes on messages.
+   * @param callback Handler invoked for every `chat:reactions`.
+   * @returns Unsubscribe function.
+   */
+  onMessageReactions(callback: MessageReactionsCallback): () => void {
+    this.messageReactionsCallbacks.add(callback);
+    return () => this.messageReactionsCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to delivery changes of the local user's messages.
+   * @param callback Handler invoked with the message id and its new status.
+   * @returns Unsubscribe function.
+   */
+  onDeliveryStatus(callback: DeliveryStatusCallback): () => void {
+    this.deliveryCallbacks.add(callback);
+    return () => this.deliveryCallbacks.delete(callback);
+  }
+
   /**
    * Subscribes to users-online updates for the current room.
    * @param callback Handler invoked when the server emits `usersOnline`.
@@ -259,13 +1047,140 @@ class ChatService {
     return () => this.stateChangeCallbacks.delete(callback);
   }
 
+  /**
+   * Subscribes to waiting-room queue updates (delivered to hosts only).
+   * @param callback Handler invoked when the server emits `lobby:queue`.
+   * @returns Unsubscribe function.
+   */
+  onLobbyQueue(callback: LobbyQueueCallback): () => void {
+    this.lobbyQueueCallbacks.add(callback);
+    return () => this.lobbyQueueCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to admission state changes of the local user.
+   * @param callback Handler invoked when the host admits or rejects the user.
+   * @returns Unsubscribe function.
+   */
+  onAdmissionStateChange(callback: (state: AdmissionState) => void): () => void {
+    this.admissionCallbacks.add(callback);
+    return () => this.admissionCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to live meeting settings changes made by the host.
+   * @param callback Handler invoked when the server relays `meeting:settings`; check `byUserId`
+   * before applying it.
+   * @returns Unsubscribe function.
+   */
+  onMeetingSettings(callback: MeetingSettingsCallback): () => void {
+    this.meetingSettingsCallbacks.add(callback);
+    return () => this.meetingSettingsCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to role changes and host handovers.
+   * @param callback Handler invoked when the server relays `meeting:roles`; check `byUserId` before
+   * applying it.
+   * @returns Unsubscribe function.
+   */
+  onMeetingRoles(callback: MeetingRolesCallback): () => void {
+    this.meetingRolesCallbacks.add(callback);
+    return () => this.meetingRolesCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to moderation actions the host applies to the local user.
+   * @param callback Handler invoked when the server relays `moderation:action`.
+   * @returns Unsubscribe function.
+   */
+  onModerationAction(callback: ModerationActionCallback): () => void {
+    this.moderationCallbacks.add(callback);
+    return () => this.moderationCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to raised-hand queue updates.
+   * @param callback Handler invoked when the server emits `hand:queue` (also sent on join).
+   * @returns Unsubscribe function.
+   */
+  onHandQueue(callback: HandQueueCallback): () => void {
+    this.handQueueCallbacks.add(callback);
+    return () => this.handQueueCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to emoji reactions from other participants.
+   * @param callback Handler invoked when the server relays `reaction`.
+   * @returns Unsubscribe function.
+   */
+  onReaction(callback: ReactionCallback): () => void {
+    this.reactionCallbacks.add(callback);
+    return () => this.reactionCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to other participants starting or stopping typing.
+   * @param callback Handler invoked for every `typing` event.
+   * @returns Unsubscribe function.
+   */
+  onTyping(callback: TypingCallback): () => void {
+    this.typingCallbacks.add(callback);
+    return () => this.typingCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to presence changes of other participants.
+   * @param callback Handler invoked for every `presence` event.
+   * @returns Unsubscribe function.
+   */
+  onPresence(callback: PresenceCallback): () => void {
+    this.presenceCallbacks.add(callback);
+    return () => this.presenceCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to recording notices from other participants.
+   * @param callback Handler invoked when the server emits `recording` (also sent on join).
+   * @returns Unsubscribe function.
+   */
+  onRecording(callback: RecordingCallback): () => void {
+    this.recordingCallbacks.add(callback);
+    return () => this.recordingCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribes to join rejections (meeting locked or user removed).
+   * @param callback Handler invoked when the server emits `room:rejected`.
+   * @returns Unsubscribe function.
+   */
+  onRoomRejected(callback: RoomRejectedCallback): () => void {
+    this.roomRejectedCallbacks.add(callback);
+    return () => this.roomRejectedCallbacks.delete(callback);
+  }
+
   /**
    * Loads persisted chat history for a meeting.
    * @param meetingId Meeting identifier to load history from.
    * @param limit Maximum number of messages to retrieve (default 50).
+   * @param before Cursor of the oldest loaded message, to fetch the page before it.
    */
-  async loadHistory(meetingId: string, limit = 50): Promise<ChatMessage[]> {
-    return fetchMeetingMessages(meetingId, limit);
+  async loadHistory(meetingId: string, limit = 50, before?: ChatHistoryCursor): Promise<ChatMessage[]> {
+    const history = await fetchMeetingMessages(meetingId, limit, before);
+    // Lo que ya está en el historial llegó al servidor aunque se perdiera el ack
+    this.getPendingMessages(meetingId).forEach(({ message }) => {
+      if (history.some((m) => m.messageId === message.messageId)) this.markDelivered(message.messageId);
+    });
+    return history;
+  }
+
+  /**
+   * Searches the full chat history of a meeting on the backend.
+   * @param meetingId Meeting identifier to search in.
+   * @param query Text, author and date range filters.
+   */
+  async searchHistory(meetingId: string, query: ChatSearchQuery): Promise<ChatMessage[]> {
+    return searchMeetingMessages(meetingId, query);
   }
 
   // --- Métodos privados ---
@@ -275,6 +1190,158 @@ class ChatService {
     this.stateChangeCallbacks.forEach((cb) => cb(state));
   }
 
+  private setCapabilities(capabilities: ChatCapabilitiesPayload | null): void {
+    const wasSupported = this.supportsPrivateMessages();
+    this.capabilities = capabilities;
+    if (!capabilities && !wasSupported) return;
+    const payload = capabilities ?? { meetingId: this.currentMeetingId ?? '', privateMessages: false };
+    this.capabilitiesCallbacks.forEach((cb) => cb(payload));
+  }
+
+  private setAdmissionState(state: AdmissionState): void {
+    if (this.admissionState === state) return;
+    this.admissionState = state;
+    this.admissionCallbacks.forEach((cb) => cb(state));
+  }
+
+  private requestAdmission(meetingId: string): void {
+    const { user } = useAuthStore.getState();
+    if (!this.socket || !user) return;
+
+    console.log('[ChatService] Emitiendo lobby:join:', meetingId);
+    this.socket.emit('lobby:join', {
+      meetingId,
+      userId: user.id,
+      userName: `${user.firstName} ${user.lastName}`.trim(),
+    });
+    this.setAdmissionState('waiting');
+  }
+
+  private isLocalUser(userId: string): boolean {
+    return Boolean(userId) && userId === useAuthStore.getState().user?.id;
+  }
+
+  private leaveLobby(meetingId: string): void {
+    const { user } = useAuthStore.getState();
+    if (!this.socket || !user) return;
+
+    console.log('[ChatService] Emitiendo lobby:leave:', meetingId);
+    this.socket.emit('lobby:leave', { meetingId, userId: user.id });
+  }
+
+  private async emitWithAck(event: ClientChatEvent, payload: object): Promise<void> {
+    if (!this.socket?.connected || !this.currentMeetingId) {
+      throw new Error('No hay conexión activa con el chat');
+    }
+    const response: ChatAck = await this.socket.timeout(ACK_TIMEOUT_MS).emitWithAck(event, payload);
+    if (!response?.ok) {
+      throw new Error(response?.error ?? 'El servidor rechazó la operación');
+    }
+  }
+
+  private notifyDelivery(messageId: string, status: MessageDeliveryStatus): void {
+    this.deliveryCallbacks.forEach((cb) => cb(messageId, status));
+  }
+
+  private markDelivered(messageId: string): void {
+    const { entries, remove } = useChatOutboxStore.getState();
+    if (!entries.some((entry) => entry.payload.messageId === messageId)) return;
+    remove(messageId);
+    this.notifyDelivery(messageId, 'sent');
+  }
+
+  private async deliver(payload: SendMessagePayload): Promise<void> {
+    if (this.inFlightMessageIds.has(payload.messageId)) return;
+    this.inFlightMessageIds.add(payload.messageId);
+
+    try {
+      // Los privados nunca van por chat:message: un servidor que no los soporte no los difunde
+      const event = payload.recipientId ? 'chat:private' : 'chat:message';
+      console.log(`[ChatService] Emitiendo ${event}:`, payload);
+      await this.emitWithAck(event, payload);
+      this.markDelivered(payload.messageId);
+    } catch (error) {
+      const stillQueued = useChatOutboxStore
+        .getState()
+        .entries.some((entry) => entry.payload.messageId === payload.messageId);
+      // Si se cortó la conexión el mensaje sigue en cola y se reenviará al reconectar
+      if (stillQueued && this.isConnected()) {
+        console.error('[ChatService] Error enviando mensaje:', error);
+        useChatOutboxStore.getState().setStatus(payload.messageId, 'failed');
+        this.notifyDelivery(payload.messageId, 'failed');
+      }
+    } finally {
+      this.inFlightMessageIds.delete(payload.messageId);
+    }
+  }
+
+  /**
+   * Delivers queued messages of the current room in order; failed ones wait for `retryMessage`.
+   */
+  private async flushOutbox(): Promise<void> {
+    if (!this.currentMeetingId) return;
+    const queued = useChatOutboxStore
+      .getState()
+      .getEntries(this.currentMeetingId)
+      .filter((entry) => entry.status === 'sending');
+    if (queued.length > 0) console.log('[ChatService] Enviando mensajes en cola:', queued.length);
+
+    for (const entry of queued) {
+      if (!this.isConnected()) return;
+      await this.deliver(entry.payload);
+    }
+  }
+
+  private emitTyping(event: 'typing:start' | 'typing:stop', recipientId?: string): void {
+    const payload: TypingPayload = {
+      meetingId: this.currentMeetingId ?? '',
+      userId: this.currentUserId ?? '',
+      userName: this.currentUserName ?? undefined,
+      isTyping: event === 'typing:start',
+      ...(recipientId && { recipientId }),
+    };
+    this.socket?.emit(event, payload);
+  }
+
+  private clearTyping(): void {
+    if (this.typingIdleTimer) clearTimeout(this.typingIdleTimer);
+    this.typingIdleTimer = null;
+    this.lastTypingSentAt = 0;
+    this.typingRecipientId = undefined;
+  }
+
+  private emitPresence(): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    const payload: PresencePayload = {
+      meetingId: this.currentMeetingId,
+      userId: this.currentUserId ?? '',
+      state: this.presenceState,
+      updatedAt: new Date().toISOString(),
+    };
+    this.socket.emit('presence:update', payload);
+  }
+
+  private emitRecording(): void {
+    if (!this.socket?.connected || !this.currentMeetingId) return;
+    const payload: RecordingPayload = {
+      meetingId: this.currentMeetingId,
+      isRecording: Boolean(this.recordingStartedAt),
+      userId: this.currentUserId ?? '',
+      userName: this.currentUserName ?? undefined,
+      ...(this.recordingStartedAt && { startedAt: this.recordingStartedAt }),
+    };
+    console.log('[ChatService] Emitiendo recording:update:', payload.isRecording);
+    this.socket.emit('recording:update', payload);
+  }
+
+  private emitLobbyDecision(event: 'lobby:admit' | 'lobby:deny', userId: string): void {
+    if (!this.socket?.connected || !this.currentMeetingId) {
+      console.error('No hay conexión activa para gestionar la sala de espera');
+      return;
+    }
+    this.socket.emit(event, { meetingId: this.currentMeetingId, userId });
+  }
+
   private joinRoom(meetingId: string): void {
     const { user } = useAuthStore.getState();
     if (!this.socket || !user) return;
@@ -286,6 +1353,9 @@ class ChatService {
     // Spec: emit joinRoom(meetingId) - solo el meetingId como string
     console.log('[ChatService] Emitiendo joinRoom:', meetingId);
     this.socket.emit('joinRoom', meetingId);
+    this.emitPresence();
+    if (this.recordingStartedAt) this.emitRecording();
+    void this.flushOutbox();
   }
 
   private leaveRoom(meetingId: string): void {
@@ -296,10 +1366,36 @@ class ChatService {
   private setupEventListeners(): void {
     if (!this.socket) return;
 
-    // Spec: escuchar chat:message para mensajes entrantes
-    this.socket.on('chat:message', (message: ChatMessage) => {
+    // Spec: escuchar chat:message para mensajes entrantes; los privados llegan por chat:private
+    const handleMessage = (message: ChatMessage) => {
       console.log('[ChatService] Mensaje recibido:', message);
+      // El eco de un mensaje propio confirma la entrega aunque el ack no haya llegado
+      this.markDelivered(message.messageId);
       this.messageCallbacks.forEach((cb) => cb(message));
+    };
+    this.socket.on('chat:message', handleMessage);
+    this.socket.on('chat:private', handleMessage);
+
+    this.socket.on('chat:capabilities', (payload: ChatCapabilitiesPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] chat:capabilities:', payload);
+      this.setCapabilities(payload);
+    });
+
+    // Ediciones, borrados y reacciones sobre mensajes existentes
+    this.socket.on('chat:edited', (payload: MessageEditedPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      this.messageEditedCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('chat:deleted', (payload: MessageDeletedPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      this.messageDeletedCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('chat:reactions', (payload: MessageReactionsPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      this.messageReactionsCallbacks.forEach((cb) => cb(payload));
     });
 
     // Spec: escuchar usersOnline para lista de usuarios en sala
@@ -319,6 +1415,80 @@ class ChatService {
       }
     });
 
+    // Sala de espera: cola para el host y decisiones para el usuario en espera
+    this.socket.on('lobby:queue', (payload: LobbyQueuePayload) => {
+      console.log('[ChatService] lobby:queue:', payload);
+      this.lobbyQueueCallbacks.forEach((cb) => cb(payload));
+    });
+
+    // Solo cuentan las decisiones sobre el usuario local, no las de otros en la misma cola
+    this.socket.on('lobby:admitted', (payload: LobbyDecisionPayload) => {
+      if (payload.meetingId !== this.currentMeetingId || !this.isLocalUser(payload.userId)) return;
+      console.log('[ChatService] ✅ Admitido en la sala:', payload.meetingId);
+      this.setAdmissionState('admitted');
+      this.joinRoom(payload.meetingId);
+    });
+
+    this.socket.on('lobby:denied', (payload: LobbyDecisionPayload) => {
+      if (payload.meetingId !== this.currentMeetingId || !this.isLocalUser(payload.userId)) return;
+      console.log('[ChatService] Acceso denegado a la sala:', payload.meetingId);
+      this.setAdmissionState('denied');
+    });
+
+    this.socket.on('meeting:settings', (payload: MeetingSettingsPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] meeting:settings:', payload.settings);
+      this.meetingSettingsCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('meeting:roles', (payload: MeetingRolesPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] meeting:roles:', payload);
+      this.meetingRolesCallbacks.forEach((cb) => cb(payload));
+    });
+
+    // Manos levantadas y reacciones
+    this.socket.on('hand:queue', (payload: HandQueuePayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] hand:queue:', payload.hands.length);
+      this.handQueueCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('reaction', (payload: ReactionPayload) => {
+      if (payload.meetingId !== this.currentMeetingId || payload.userId === this.currentUserId) return;
+      this.reactionCallbacks.forEach((cb) => cb(payload));
+    });
+
+    // Indicadores de escritura y presencia de los demás participantes
+    this.socket.on('typing', (payload: TypingPayload) => {
+      if (payload.meetingId !== this.currentMeetingId || payload.userId === this.currentUserId) return;
+      this.typingCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('presence', (payload: PresencePayload) => {
+      if (payload.meetingId !== this.currentMeetingId || payload.userId === this.currentUserId) return;
+      this.presenceCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('recording', (payload: RecordingPayload) => {
+      if (payload.meetingId !== this.currentMeetingId || payload.userId === this.currentUserId) return;
+      console.log('[ChatService] recording:', payload.isRecording);
+      this.recordingCallbacks.forEach((cb) => cb(payload));
+    });
+
+    // Moderación: acciones del host y rechazos de entrada
+    this.socket.on('moderation:action', (payload: ModerationActionPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] moderation:action:', payload);
+      this.moderationCallbacks.forEach((cb) => cb(payload));
+    });
+
+    this.socket.on('room:rejected', (payload: RoomRejectedPayload) => {
+      if (payload.meetingId !== this.currentMeetingId) return;
+      console.log('[ChatService] room:rejected:', payload.reason);
+      this.roomRejectedCallbacks.forEach((cb) => cb(payload));
+    });
+
     this.socket.on('error', (error: { code: string; message: string }) => {
       console.error('[ChatService] Error:', error);
       this.errorCallbacks.forEach((cb) => cb(error));
@@ -342,4 +1512,4 @@ class ChatService {
 export const chatService = new ChatService();
 
 // Re-exportar tipos de meetings.ts
-export type { ChatMessage };
+export type { ChatAttachment, ChatHistoryCursor, ChatMention, ChatMessage, ChatSearchQuery };
@@ -1,9 +1,32 @@
 import { apiFetch } from '@/lib/api-client';
-import { Meeting, MeetingSettings, MeetingStatus } from '@/store/meetingStore';
+import { Meeting, MeetingRole, MeetingSettings, MeetingStatus } from '@/store/meetingStore';
 import { useAuthStore } from '@/store/authStore';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL ?? '';
 
+/**
+ * Participant mentioned with `@name` in a chat message.
+ */
+export interface ChatMention {
+  userId: string;
+  userName: string;
+}
+
+/**
+ * File uploaded to a meeting and attached to a chat message.
+ */
+export interface ChatAttachment {
+  attachmentId: string;
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes. */
+  size: number;
+  /** Download URL served by the backend. */
+  url: string;
+  /** Smaller rendition for images, when the backend generates one. */
+  thumbnailUrl?: string;
+}
+
 /**
  * Chat message persisted by the backend for a meeting room.
  */
@@ -14,6 +37,20 @@ export interface ChatMessage {
   userName?: string;
   message: string;
   timestamp: string;
+  mentions?: ChatMention[];
+  /** Message this one replies to. */
+  parentMessageId?: string;
+  /** Recipient of a private message; omitted for room-wide messages. */
+  recipientId?: string;
+  recipientName?: string;
+  /** Set when the author edited the message. */
+  editedAt?: string;
+  /** Set when the message was deleted; `message` is then empty. */
+  deletedAt?: string;
+  /** Emoji reactions: emoji → ids of the users who reacted. */
+  reactions?: Record<string, string[]>;
+  /** Files shared with the message; `message` may be empty when there are attachments. */
+  attachments?: ChatAttachment[];
 }
 
 interface BackendMeeting {
@@ -33,6 +70,7 @@ interface BackendMeeting {
   duration?: string;
   participants?: string[];
   settings?: MeetingSettings;
+  roles?: Record<string, MeetingRole>;
 }
 
 interface BackendMeetingMetadata {
@@ -45,6 +83,7 @@ interface BackendMeetingMetadata {
   duration?: string;
   participants?: string[];
   settings?: MeetingSettings;
+  roles?: Record<string, MeetingRole>;
   code?: string;
   joinCode?: string;
   maxParticipants?: number;
@@ -66,6 +105,8 @@ export interface CreateMeetingInput {
   maxParticipants?: number;
   participants?: string[];
   settings?: MeetingSettings;
+  /** Optional access password; the backend stores only its hash. */
+  password?: string;
 }
 
 const DEFAULT_SETTINGS: MeetingSettings = {
@@ -87,6 +128,7 @@ function normalizeMeeting(data: BackendMeeting): Meeting {
   const duration = data.duration ?? metadata.duration ?? '';
   const participants = data.participants ?? metadata.participants ?? [];
   const settings = data.settings ?? metadata.settings ?? DEFAULT_SETTINGS;
+  const roles = data.roles ?? metadata.roles ?? {};
   const code = metadata.code ?? metadata.joinCode ?? data.id;
 
   return {
@@ -106,6 +148,7 @@ function normalizeMeeting(data: BackendMeeting): Meeting {
     description,
     duration,
     settings,
+    roles,
     metadata: metadata as Record<string, unknown>,
     voiceRoomId: data.voiceRoomId ?? metadata.voiceRoomId,
   };
@@ -127,9 +170,16 @@ export async function fetchMeetings(): Promise<Meeting[]> {
  * @throws ApiError when the backend rejects the request.
  */
 export async function createMeeting(payload: CreateMeetingInput): Promise<Meeting> {
+  const settings: MeetingSettings = { ...DEFAULT_SETTINGS, ...payload.settings };
+  if (payload.password) {
+    settings.requirePassword = true;
+  }
+
   const body = {
     meetingName: payload.meetingName,
     maxParticipants: payload.maxParticipants ?? 10,
+    // La contraseña viaja fuera de metadata: metadata es pública en GET /api/meetings/:id
+    ...(payload.password ? { password: payload.password } : {}),
     metadata: {
       meetingName: payload.meetingName,
       date: payload.date,
@@ -138,7 +188,7 @@ export async function createMeeting(payload: CreateMeetingInput): Promise<Meetin
       description: payload.description ?? '',
       duration: payload.duration ?? '',
       participants: payload.participants ?? [],
-      settings: payload.settings ?? DEFAULT_SETTINGS,
+      settings,
     },
   };
 
@@ -197,14 +247,29 @@ export async function getMeetingById(meetingId: string): Promise<Meeting> {
 }
 
 /**
- * Retrieves the chat history for a meeting.
+ * Position in the chat history: the oldest message already loaded.
+ * @remarks Messages are ordered by `(timestamp, messageId)`; the id breaks ties between messages
+ * sent in the same millisecond so none is skipped at a page boundary.
+ */
+export interface ChatHistoryCursor {
+  timestamp: string;
+  messageId: string;
+}
+
+/**
+ * Retrieves the chat history for a meeting, one page at a time.
  * @param meetingId Meeting identifier whose messages are requested.
  * @param limit Optional page size; defaults to the latest 50 messages.
- * @returns Array of messages; endpoint returns a bare array (no `{ data: [] }`).
+ * @param before Cursor of the oldest message already loaded; only messages before it in
+ * `(timestamp, messageId)` order are returned. Omit it for the latest page.
+ * @returns Array of messages, oldest first; endpoint returns a bare array (no `{ data: [] }`).
+ * A page shorter than `limit` means there is no older history. Private messages are only included
+ * when the requester sent or received them.
  */
 export async function fetchMeetingMessages(
   meetingId: string,
-  limit = 50
+  limit = 50,
+  before?: ChatHistoryCursor
 ): Promise<ChatMessage[]> {
   const { tokens } = useAuthStore.getState();
   
@@ -216,8 +281,14 @@ export async function fetchMeetingMessages(
     headers['Authorization'] = `Bearer ${tokens.idToken}`;
   }
 
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (before) {
+    params.set('before', before.timestamp);
+    params.set('beforeId', before.messageId);
+  }
+
   const response = await fetch(
-    `${API_BASE_URL}/api/meetings/${meetingId}/messages?limit=${limit}`,
+    `${API_BASE_URL}/api/meetings/${meetingId}/messages?${params}`,
     { headers }
   );
 
@@ -234,6 +305,55 @@ export async function fetchMeetingMessages(
   return response.json();
 }
 
+/**
+ * Filters for the backend chat search; every field is optional and they combine with AND.
+ */
+export interface ChatSearchQuery {
+  /** Text to look for in message content and attachment names. */
+  text?: string;
+  authorId?: string;
+  /** ISO timestamp; only messages sent at or after it. */
+  from?: string;
+  /** ISO timestamp; only messages sent at or before it. */
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Searches the whole chat history of a meeting, including messages not loaded in the client.
+ * @param meetingId Meeting whose messages are searched.
+ * @param query Text, author and date range filters.
+ * @returns Matching messages visible to the requester, oldest first.
+ */
+export async function searchMeetingMessages(meetingId: string, query: ChatSearchQuery): Promise<ChatMessage[]> {
+  const params = new URLSearchParams();
+  if (query.text) params.set('q', query.text);
+  if (query.authorId) params.set('authorId', query.authorId);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  params.set('limit', String(query.limit ?? 100));
+
+  return apiFetch<ChatMessage[]>(`/api/meetings/${meetingId}/messages/search?${params}`);
+}
+
+/**
+ * Uploads a file to share in the meeting chat.
+ * @param meetingId Meeting the file belongs to.
+ * @param file File picked, dropped or pasted by the user.
+ * @returns Attachment metadata to send along with a chat message.
+ * @throws ApiError `413` when the file exceeds the backend size limit.
+ */
+export async function uploadChatAttachment(meetingId: string, file: File): Promise<ChatAttachment> {
+  const body = new FormData();
+  body.append('file', file, file.name);
+
+  // Sin Content-Type explícito: el navegador añade el boundary del multipart
+  return apiFetch<ChatAttachment>(`/api/meetings/${meetingId}/attachments`, {
+    method: 'POST',
+    body,
+  });
+}
+
 /**
  * Updates the meeting lifecycle status (host-only operation).
  * @param meetingId Meeting identifier to update.
@@ -251,3 +371,105 @@ export async function updateMeetingStatus(
 
   return normalizeMeeting(data);
 }
+
+/**
+ * Persists new feature toggles for a meeting (host-only operation).
+ * @param meetingId Meeting identifier to update.
+ * @param settings Full settings object to store in metadata.
+ * @returns The normalized meeting after the update.
+ */
+export async function updateMeetingSettings(
+  meetingId: string,
+  settings: MeetingSettings
+): Promise<Meeting> {
+  const data = await apiFetch<BackendMeeting>(`/api/meetings/${meetingId}/settings`, {
+    method: 'PATCH',
+    body: JSON.stringify({ settings }),
+  });
+
+  return normalizeMeeting(data);
+}
+
+/**
+ * Persists per-meeting roles (host-only operation).
+ * @param meetingId Meeting identifier to update.
+ * @param roles Full role map keyed by user id; the host is implied by `hostUid`.
+ * @returns The normalized meeting after the update.
+ */
+export async function updateMeetingRoles(
+  meetingId: string,
+  roles: Record<string, MeetingRole>
+): Promise<Meeting> {
+  const data = await apiFetch<BackendMeeting>(`/api/meetings/${meetingId}/roles`, {
+    method: 'PATCH',
+    body: JSON.stringify({ roles }),
+  });
+
+  return normalizeMeeting(data);
+}
+
+/**
+ * Hands the host role over to another user (host-only operation).
+ * @param meetingId Meeting identifier to update.
+ * @param hostUid User that becomes the new host.
+ * @param roles Role map after the handover (the previous host usually becomes a participant).
+ * @returns The normalized meeting with the new `hostUid`.
+ */
+export async function transferMeetingHost(
+  meetingId: string,
+  hostUid: string,
+  roles: Record<string, MeetingRole>
+): Promise<Meeting> {
+  const data = await apiFetch<BackendMeeting>(`/api/meetings/${meetingId}/host`, {
+    method: 'PUT',
+    body: JSON.stringify({ hostUid, roles }),
+  });
+
+  return normalizeMeeting(data);
+}
+
+/** Access tokens issued by `verify-password`, kept in memory for this page load only. */
+const meetingAccessTokens = new Map<string, string>();
+
+/**
+ * Returns the access token obtained when the meeting password was verified, if any.
+ * @param meetingId Meeting identifier.
+ */
+export function getMeetingAccessToken(meetingId: string): string | undefined {
+  return meetingAccessTokens.get(meetingId);
+}
+
+/**
+ * Validates a meeting access password against the backend.
+ * @param meetingId Meeting identifier protected by `settings.requirePassword`.
+ * @param password Password typed by the participant.
+ * @returns `true` when the password matches and the backend issued an access token; `false` when it
+ * answers `403` or omits the token.
+ * @throws ApiError for other failures; `429` when the backend throttles attempts.
+ * @remarks The short-lived `accessToken` is sent on the chat handshake (`auth.meetingAccessToken`)
+ * and when requesting the voice session (see {@link getMeetingAccessToken}). Both services reject
+ * joins to a protected meeting without a valid token, except for users whose role on the server
+ * exempts them; the client skipping the prompt for moderators is only a convenience.
+ */
+export async function verifyMeetingPassword(meetingId: string, password: string): Promise<boolean> {
+  try {
+    const result = await apiFetch<{ valid: boolean; accessToken?: string }>(
+      `/api/meetings/${meetingId}/verify-password`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ password }),
+      }
+    );
+    // Sin token no hay forma de entrar al chat ni a la voz, aunque la contraseña sea correcta
+    if (!result?.valid || !result.accessToken) return false;
+    meetingAccessTokens.set(meetingId, result.accessToken);
+    return true;
+  } catch (error) {
+    const status = (error as { status?: number })?.status;
+    // 403 = contraseña incorrecta; 401 queda reservado para sesión expirada
+    if (status === 403) {
+      return false;
+    }
+    throw error;
+  }
+}
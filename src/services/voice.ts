@@ -1,4 +1,5 @@
 import { apiFetch } from '@/lib/api-client';
+import { getMeetingAccessToken } from './meetings';
 
 /**
  * ICE server configuration for WebRTC.
@@ -35,6 +36,8 @@ export interface VoiceSession {
 
 /**
  * Builds ICE server configuration from env variables; used as fallback when backend is unavailable.
+ * @remarks Accepts `VITE_ICE_SERVER_URL` with or without a `stun:`/`turn:` scheme. TURN is only
+ * emitted when credentials are configured; STUN on the same host is always included.
  */
 export function getLocalIceServers(): IceServer[] {
   const iceUrl = import.meta.env.VITE_ICE_SERVER_URL;
@@ -45,14 +48,22 @@ export function getLocalIceServers(): IceServer[] {
     return [];
   }
 
+  const hasScheme = /^(stun|turn)s?:/i.test(iceUrl);
+  const host = iceUrl.replace(/^(stun|turn)s?:/i, '');
+
+  // Sin credenciales solo tiene sentido STUN
+  if (!iceUsername && !iceCredential) {
+    return [{ urls: hasScheme ? iceUrl : `stun:${host}` }];
+  }
+
   return [
     {
-      urls: `turn:${iceUrl}`,
+      urls: hasScheme ? iceUrl : `turn:${host}`,
       username: iceUsername,
       credential: iceCredential,
     },
     {
-      urls: `stun:${iceUrl}`,
+      urls: `stun:${host}`,
     },
   ];
 }
@@ -90,11 +101,15 @@ export async function getVoiceConfig(): Promise<VoiceConfig> {
  * Creates a voice session for a meeting; token is typically valid for ~5 minutes.
  * @param meetingId Meeting identifier to join.
  * @returns Session payload containing token and connection settings.
+ * @remarks In meetings with a waiting room the backend refuses the session until the host has
+ * admitted the user, so skipping the lobby on the client does not give access to the call. Meetings
+ * with a password also require the `accessToken` returned by `verifyMeetingPassword`.
  */
 export async function createVoiceSession(meetingId: string): Promise<VoiceSession> {
   const session = await apiFetch<VoiceSession>('/api/voice/session', {
     method: 'POST',
-    body: JSON.stringify({ meetingId }),
+    // Prueba de que se verificó la contraseña de la reunión, si la tiene
+    body: JSON.stringify({ meetingId, accessToken: getMeetingAccessToken(meetingId) }),
   });
 
   return session;
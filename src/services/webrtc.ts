@@ -1,243 +1,841 @@
 import { io, Socket } from "socket.io-client";
 import Peer from "simple-peer";
-import EventEmitter from "events";
-import process from "process";
-import { format } from "util";
+import { useAuthStore } from "@/store/authStore";
+import {
+  createVoiceSession,
+  getVoiceConfig,
+  getWebRTCServerUrl,
+  IceServer,
+  VoiceSession,
+} from "./voice";
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+/** Renew the voice session token this long before it expires. */
+const SESSION_REFRESH_BUFFER_MS = 60_000;
+/** Time ICE may stay `disconnected` before an ICE restart is requested. */
+const ICE_DISCONNECT_GRACE_MS = 3_000;
+/** Backoff for rebuilding a failed peer connection: 1s, 2s, 4s... capped at 16s. */
+const PEER_RETRY_BASE_MS = 1_000;
+const PEER_RETRY_MAX_MS = 16_000;
+const PEER_MAX_RETRIES = 5;
+/** Time a peer lost during a signaling reconnect has to be reintroduced before it is dropped. */
+const PEER_REJOIN_TIMEOUT_MS = 15_000;
+const SOCKET_RECONNECT_ATTEMPTS = 10;
+
+/** Identity a peer announces over the data channel once connected. */
+export interface PeerIdentity {
+  userId: string;
+  userName?: string;
+}
 
-const serverWebRTCUrl = import.meta.env.VITE_WEBRTC_URL;
-const iceServerUrl = import.meta.env.VITE_ICE_SERVER_URL;
-const iceServerUsername = import.meta.env.VITE_ICE_SERVER_USERNAME;
-const iceServerCredential = import.meta.env.VITE_ICE_SERVER_CREDENTIAL;
+/** Microphone/camera state a peer announces over the data channel. */
+export interface PeerMediaState {
+  audio: boolean;
+  video: boolean;
+  /** True while the peer publishes a screen capture instead of its camera. */
+  screen?: boolean;
+}
 
-export const peers = new Map<string, Peer.Instance>();
-let socket: Socket | null = null;
-export let localStream: MediaStream | null = null;
-let currentMeetingId: string | null = null;
+type PeerDataMessage =
+  | ({ type: "identity" } & PeerIdentity)
+  | ({ type: "media-state" } & PeerMediaState);
 
-const voiceEvents = new EventEmitter();
+/** Lifecycle of the call as seen by the local user. */
+export type CallConnectionState = "idle" | "connecting" | "connected" | "reconnecting" | "error";
 
-const iceServers = (() => {
-  if (!iceServerUrl) {
-    return [{ urls: "stun:stun.l.google.com:19302" }];
-  }
+/** Lifecycle of a single peer connection. */
+export type PeerConnectionState = "connecting" | "connected" | "reconnecting";
 
-  // Normaliza la URL: si no trae prefijo stun/turn, lo agregamos
-  const normalizeIceUrls = (url: string): string[] => {
-    const hasScheme = /^(stun|turn)s?:/i.test(url);
-    const sanitized = url.replace(/^(stun|turn)s?:/i, "");
+export type CallErrorCode = "join_failed" | "reconnect_failed" | "signaling";
 
-    // Si se proveen credenciales, usamos TURN y agregamos STUN como respaldo
-    if (iceServerUsername || iceServerCredential) {
-      const turnUrl = hasScheme ? url : `turn:${sanitized}`;
-      const stunUrl = hasScheme ? url : `stun:${sanitized}`;
-      return [stunUrl, turnUrl];
-    }
+/** Error surfaced through the `error` event. */
+export interface CallError {
+  code: CallErrorCode;
+  message: string;
+}
 
-    // Sin credenciales: solo STUN
-    return [hasScheme ? url : `stun:${sanitized}`];
-  };
+/** Initial media toggles applied when joining. */
+export interface CallJoinOptions {
+  /** Start with the microphone enabled (default true). */
+  audio?: boolean;
+  /** Start with the camera enabled (default true). */
+  video?: boolean;
+  /** Preferred microphone; falls back to the default one when unavailable. */
+  audioInputId?: string;
+  /** Preferred camera; falls back to the default one when unavailable. */
+  videoInputId?: string;
+  /** Join without camera/microphone (viewers); only remote media is received. */
+  receiveOnly?: boolean;
+}
 
-  const urls = normalizeIceUrls(iceServerUrl);
-  const entry: RTCIceServer = { urls };
-  if (iceServerUsername) entry.username = iceServerUsername;
-  if (iceServerCredential) entry.credential = iceServerCredential;
-  return [entry];
-})();
+/** Local input device kinds that can be swapped during a call. */
+export type CallInputKind = "audioinput" | "videoinput";
+
+/** Events emitted by `CallManager`. */
+export interface CallEvents {
+  /** Connection state changed. */
+  stateChange: (state: CallConnectionState) => void;
+  /** Local camera/microphone stream acquired (or released with `null`). */
+  localStream: (stream: MediaStream | null) => void;
+  /** A remote peer published a stream. */
+  remoteStream: (peerId: string, stream: MediaStream) => void;
+  /** A peer disconnected or was torn down. */
+  peerLeft: (peerId: string) => void;
+  /** A peer announced which user it belongs to. */
+  peerIdentity: (peerId: string, identity: PeerIdentity) => void;
+  /** A peer toggled its microphone, camera or screen share. */
+  peerMediaState: (peerId: string, state: PeerMediaState) => void;
+  /** A peer connection was established, dropped or is being recovered. */
+  peerConnectionState: (peerId: string, state: PeerConnectionState) => void;
+  /** Joining, signaling or reconnection failed. */
+  error: (error: CallError) => void;
+}
 
+type CallListener = (...args: unknown[]) => void;
+
+/** simple-peer members its typings do not declare (ICE restarts and native stats). */
+type PeerInternals = Peer.Instance & {
+  offerOptions: RTCOfferOptions;
+  negotiate: () => void;
+  _pc: RTCPeerConnection | null;
+};
+
+/** Renegotiation request sent by the non-initiator; `iceRestart` asks for an ICE-restart offer. */
+type RenegotiateSignal = Extract<Peer.SignalData, { type: "renegotiate" }> & { iceRestart?: boolean };
+
+interface PeerEntry {
+  peer: Peer.Instance;
+  /** Role kept across rebuilds so both sides agree on who sends the offer. */
+  initiator: boolean;
+  state: PeerConnectionState;
+  retries: number;
+  iceTimer: number | null;
+  retryTimer: number | null;
+}
 
-export interface VoiceChatCallbacks {
-  /** Called when a remote peer publishes a stream. */
-  onRemoteStream?: (peerId: string, stream: MediaStream) => void;
-  /** Called when a peer disconnects or is torn down. */
-  onPeerLeft?: (peerId: string) => void;
+function toRTCIceServers(iceServers: IceServer[]): RTCIceServer[] {
+  if (!iceServers?.length) return DEFAULT_ICE_SERVERS;
+  return iceServers.map((server) => ({
+    urls: server.urls,
+    username: server.username,
+    credential: server.credential,
+  }));
 }
 
 /**
- * Starts a voice chat session using Socket.IO + Peer.js for audio-only calls.
- * @param meetingId Meeting identifier used as the room key on the signaling server.
- * @param callbacks Optional callbacks for remote stream and peer leave events.
- * @returns Helper utilities for cleanup and the acquired local audio stream.
- * @throws If `meetingId` is empty or `VITE_WEBRTC_URL` is missing.
- * @remarks Requires microphone permission; uses TURN credentials when provided.
+ * Mesh WebRTC call client: owns the signaling socket, Simple-Peer connections and local tracks.
+ *
+ * Signaling follows the `eisc-video` spec (`introduction`, `newUserConnected`, `signal`,
+ * `userDisconnected`). ICE servers come from `getVoiceConfig` and the socket authenticates
+ * with the backend-issued `VoiceSession` token, which is renewed before it expires.
+ *
+ * Recovery: the signaling socket reconnects with backoff and rejoins the room (the meeting id
+ * travels in the handshake query); peers whose ICE drops get an ICE restart, and failed peers are
+ * rebuilt with exponential backoff while their tiles show a `reconnecting` state.
+ *
+ * @example
+ * ```ts
+ * const off = callManager.on('remoteStream', (peerId, stream) => attach(peerId, stream));
+ * await callManager.join('meeting123');
+ * callManager.setMicrophoneEnabled(false);
+ * callManager.leave();
+ * off();
+ * ```
  */
-export async function startVoiceChat(
-  meetingId: string,
-  callbacks: VoiceChatCallbacks = {}
-): Promise<{ stop: () => void; localStream: MediaStream }> {
-  if (!meetingId) throw new Error("meetingId is required to start voice chat");
-  if (!serverWebRTCUrl) throw new Error("VITE_VOICE_SERVER_URL is not configured");
-
-  currentMeetingId = meetingId;
-  voiceEvents.emit(
-    "voice:init",
-    format("Bootstrapping voice chat in %s mode", process.env?.NODE_ENV || "development")
-  );
-  console.log("[WebRTC] Iniciando voice chat para meetingId:", meetingId);
-
-  localStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true });
-  const socketInstance = await createSocket(meetingId);
-
-  const handleRemoteStream = (peerId: string, stream: MediaStream) => {
-    callbacks.onRemoteStream?.(peerId, stream);
-    voiceEvents.emit("peer-stream", { peerId, stream });
-  };
-
-  const handlePeerLeft = (peerId: string) => {
-    callbacks.onPeerLeft?.(peerId);
-    voiceEvents.emit("peer-left", peerId);
-  };
-
-  socketInstance.on("introduction", (remotePeers: string[] = []) => {
-    console.log("[WebRTC] Introduction - peers existentes:", remotePeers);
-    remotePeers.forEach((peerId) => {
-      ensurePeer(peerId, true, handleRemoteStream, handlePeerLeft);
-    });
-  });
-
-  socketInstance.on("newUserConnected", (peerId: string) => {
-    console.log("[WebRTC] Nuevo usuario conectado:", peerId);
-    voiceEvents.emit("peer-joined", peerId);
-    // The newcomer will initiate the connection; ensure a peer exists ready to handle incoming signal.
-    ensurePeer(peerId, false, handleRemoteStream, handlePeerLeft);
-  });
-
-  socketInstance.on("signal", (to: string, from: string, data: Peer.SignalData) => {
-    if (to !== socketInstance.id) return;
-    console.log("[WebRTC] Señal recibida de:", from);
-    const peer = ensurePeer(from, false, handleRemoteStream, handlePeerLeft);
-    peer?.signal(data);
-  });
-
-  socketInstance.on("userDisconnected", (peerId: string) => {
-    console.log("[WebRTC] Usuario desconectado:", peerId);
-    teardownPeer(peerId, handlePeerLeft);
-  });
-
-  socketInstance.on("disconnect", () => {
-    console.log("[WebRTC] Socket desconectado");
-    voiceEvents.emit("socket-disconnect", meetingId);
-  });
-
-  return {
-    stop: () => stopVoiceChat(),
-    localStream,
-  };
-}
+class CallManager {
+  private socket: Socket | null = null;
+  private peers: Map<string, PeerEntry> = new Map();
+  /** Peers lost during a signaling reconnect, waiting to be reintroduced. */
+  private rejoinTimers: Map<string, number> = new Map();
+  private localStream: MediaStream | null = null;
+  private screenTrack: MediaStreamTrack | null = null;
+  private meetingId: string | null = null;
+  private session: VoiceSession | null = null;
+  private iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS;
+  private mediaState: PeerMediaState = { audio: true, video: true, screen: false };
+  private connectionState: CallConnectionState = "idle";
+  private sessionRefreshTimer: number | null = null;
+  private joinAttempt = 0;
+  private listeners: Map<keyof CallEvents, Set<CallListener>> = new Map();
+
+  /**
+   * Returns the current connection state.
+   */
+  getConnectionState(): CallConnectionState {
+    return this.connectionState;
+  }
 
-async function createSocket(meetingId: string): Promise<Socket> {
-  if (socket) return socket;
-  
-  console.log("[WebRTC] Conectando al servidor:", serverWebRTCUrl);
-  
-  socket = io(serverWebRTCUrl, {
-    transports: ["websocket"],
-    query: { meetingId },
-  });
-  
-  return await new Promise((resolve, reject) => {
-    socket!.on("connect", () => {
-      console.log("[WebRTC] Socket conectado, ID:", socket!.id);
-      resolve(socket!);
-    });
-    socket!.on("connect_error", (err) => {
-      console.error("[WebRTC] Error de conexión:", err);
-      reject(err);
-    });
-  });
-}
+  /**
+   * Returns the local camera/microphone stream, if acquired.
+   */
+  getLocalStream(): MediaStream | null {
+    return this.localStream;
+  }
 
-function ensurePeer(
-  peerId: string,
-  initiator: boolean,
-  onRemoteStream: (peerId: string, stream: MediaStream) => void,
-  onPeerLeft: (peerId: string) => void
-): Peer.Instance | null {
-  if (!socket || peerId === socket.id) return null;
-  if (peers.has(peerId)) {
-    console.log("[WebRTC] Peer ya existe:", peerId);
-    return peers.get(peerId)!;
-  }
-
-  console.log("[WebRTC] Creando nuevo peer:", peerId, "initiator:", initiator);
-  
-    const peer = new Peer({
-    initiator,
-    trickle: false,
-    config: { iceServers },
-  });
-
-  peer.on("connect", () => {
-    if (localStream) peer.addStream(localStream);
-  });
-
-  peer.on("signal", (data: Peer.SignalData) => {
-    console.log("[WebRTC] Enviando señal a:", peerId);
-    socket?.emit("signal", peerId, socket.id, data);
-  });
-
-  peer.on("stream", (stream: MediaStream) => {
-    console.log("[WebRTC] Stream remoto recibido de:", peerId);
-    onRemoteStream?.(peerId, stream);
-  });
-
-  peer.on("close", () => {
-    console.log("[WebRTC] Peer cerrado:", peerId);
-    teardownPeer(peerId, onPeerLeft);
-  });
-
-  peer.on("error", (err) => {
-    console.error("[WebRTC] Error en peer", peerId, err);
-    teardownPeer(peerId, onPeerLeft);
-  });
-
-  peers.set(peerId, peer);
-  return peer;
-}
+  /**
+   * Returns the ICE servers applied to peer connections (defaults to public STUN).
+   */
+  getIceServers(): RTCIceServer[] {
+    return this.iceServers;
+  }
 
-function teardownPeer(peerId: string, onPeerLeft: (peerId: string) => void) {
-  const peer = peers.get(peerId);
-  if (peer) {
-    peer.removeAllListeners();
-    peer.destroy();
-    peers.delete(peerId);
-    onPeerLeft?.(peerId);
+  /**
+   * Collects native WebRTC stats for every connected peer.
+   * @returns Stats reports keyed by peer id; peers that are not connected are skipped.
+   * @remarks Reads the underlying `RTCPeerConnection` because simple-peer's `getStats` flattens
+   * reports and drops the ids needed to resolve the selected candidate pair.
+   */
+  async getPeerStats(): Promise<Record<string, RTCStatsReport>> {
+    const entries = Array.from(this.peers.entries()).filter(([, entry]) => entry.peer.connected);
+    const results = await Promise.all(
+      entries.map(async ([peerId, entry]) => {
+        const pc = (entry.peer as PeerInternals)._pc;
+        if (!pc) return null;
+        try {
+          return [peerId, await pc.getStats()] as const;
+        } catch (err) {
+          console.warn("[CallManager] No se pudieron leer estadísticas de", peerId, err);
+          return null;
+        }
+      })
+    );
+    return Object.fromEntries(results.filter((result) => result !== null));
   }
-}
 
-/**
- * Stops all peers, closes the signaling socket, and releases microphone tracks.
- * @remarks Idempotent; safe to call even if voice chat is not active.
- */
-export function stopVoiceChat() {
-  console.log("[WebRTC] Deteniendo voice chat");
-  
-  peers.forEach((peer) => peer.destroy());
-  peers.clear();
-  
-  if (socket) {
-    socket.removeAllListeners();
-    socket.disconnect();
-    socket = null;
-  }
-  
-  if (localStream) {
-    localStream.getTracks().forEach((track) => track.stop());
-    localStream = null;
-  }
-  
-  currentMeetingId = null;
-  voiceEvents.removeAllListeners();
-}
+  /**
+   * Subscribes to a call event.
+   * @param event Event name from `CallEvents`.
+   * @param handler Listener with the event's signature.
+   * @returns Unsubscribe function.
+   */
+  on<K extends keyof CallEvents>(event: K, handler: CallEvents[K]): () => void {
+    const set = this.listeners.get(event) ?? new Set<CallListener>();
+    this.listeners.set(event, set);
+    set.add(handler as CallListener);
+    return () => set.delete(handler as CallListener);
+  }
 
-/**
- * Toggles all local microphone tracks on or off.
- * @param enabled True to allow audio, false to mute microphone.
- */
-export function setMicrophoneEnabled(enabled: boolean) {
-  if (!localStream) return;
-  localStream.getAudioTracks().forEach((track) => {
-    track.enabled = enabled;
-  });
+  /**
+   * Acquires local media, opens a voice session and joins the meeting's signaling room.
+   * @param meetingId Meeting identifier used as the room key on the signaling server.
+   * @param options Initial microphone/camera toggles.
+   * @returns The acquired local stream, or null when joining `receiveOnly`.
+   * @throws If media permissions are denied, the signaling socket cannot connect, or
+   * `leave()` is called while joining.
+   * @remarks Falls back to audio-only when the camera is unavailable. When the backend cannot
+   * issue a `VoiceSession`, joins without a token (the signaling server does not enforce it yet).
+   */
+  async join(meetingId: string, options: CallJoinOptions = {}): Promise<MediaStream | null> {
+    if (!meetingId) throw new Error("meetingId is required to join a call");
+    if (this.meetingId === meetingId && this.localStream) return this.localStream;
+    if (this.meetingId) this.leave();
+
+    const attempt = ++this.joinAttempt;
+    const ensureCurrent = () => {
+      if (attempt !== this.joinAttempt) throw new Error("Join cancelled");
+    };
+
+    console.log("[CallManager] Uniéndose a la llamada:", meetingId);
+    this.meetingId = meetingId;
+    this.mediaState = options.receiveOnly
+      ? { audio: false, video: false, screen: false }
+      : { audio: options.audio ?? true, video: options.video ?? true, screen: false };
+    this.setConnectionState("connecting");
+
+    try {
+      const [stream, config] = await Promise.all([
+        options.receiveOnly ? Promise.resolve(null) : this.acquireLocalMedia(options),
+        getVoiceConfig(),
+      ]);
+      if (attempt !== this.joinAttempt) {
+        stream?.getTracks().forEach((track) => track.stop());
+        ensureCurrent();
+      }
+
+      if (stream) {
+        this.localStream = stream;
+        this.applyTrackState();
+        this.emit("localStream", stream);
+      }
+      this.iceServers = toRTCIceServers(config.iceServers);
+
+      this.session = await this.createSession(meetingId);
+      ensureCurrent();
+
+      const serverUrl = this.session?.voiceServerUrl || config.voiceServerUrl || getWebRTCServerUrl();
+      await this.connectSocket(serverUrl, meetingId);
+      ensureCurrent();
+
+      this.setConnectionState("connected");
+      return stream;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("No se pudo unir a la llamada");
+      if (attempt === this.joinAttempt) {
+        console.error("[CallManager] Error uniéndose a la llamada:", error);
+        this.releaseResources();
+        this.setConnectionState("error");
+        this.emit("error", { code: "join_failed", message: error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Leaves the call: destroys peers, closes the socket and stops local tracks.
+   * @remarks Idempotent; cancels an in-flight `join()`.
+   */
+  leave(): void {
+    console.log("[CallManager] Saliendo de la llamada");
+    this.joinAttempt++;
+    this.releaseResources();
+    this.setConnectionState("idle");
+  }
+
+  /**
+   * Toggles local microphone tracks and notifies connected peers.
+   * @param enabled True to send audio, false to mute.
+   */
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.mediaState = { ...this.mediaState, audio: enabled };
+    this.applyTrackState();
+    this.broadcastMediaState();
+  }
+
+  /**
+   * Toggles local camera tracks and notifies connected peers.
+   * @param enabled True to send video, false to pause the camera.
+   */
+  setCameraEnabled(enabled: boolean): void {
+    this.mediaState = { ...this.mediaState, video: enabled };
+    this.applyTrackState();
+    this.broadcastMediaState();
+  }
+
+  /**
+   * Publishes a screen capture to every peer by replacing the outgoing camera track.
+   * @param track Video track obtained from `getDisplayMedia`; the caller owns and stops it.
+   * @remarks Peers that connect while sharing receive the screen track directly.
+   */
+  startScreenShare(track: MediaStreamTrack): void {
+    const previous = this.screenTrack ?? this.getCameraTrack();
+    this.screenTrack = track;
+    this.peers.forEach(({ peer }) => this.replaceOutgoingTrack(peer, previous, track));
+    this.mediaState = { ...this.mediaState, screen: true };
+    this.broadcastMediaState();
+  }
+
+  /**
+   * Stops publishing the screen capture and restores the camera track on every peer.
+   * @remarks Idempotent; does nothing when no screen share is active.
+   */
+  stopScreenShare(): void {
+    if (!this.screenTrack) return;
+    const sharedTrack = this.screenTrack;
+    this.screenTrack = null;
+    this.peers.forEach(({ peer }) => this.replaceOutgoingTrack(peer, sharedTrack, this.getCameraTrack()));
+    this.mediaState = { ...this.mediaState, screen: false };
+    this.broadcastMediaState();
+  }
+
+  /**
+   * Swaps the local microphone or camera for another device without renegotiating.
+   * @param kind Device kind to replace.
+   * @param deviceId Target device; `undefined` selects the browser default.
+   * @throws If the device cannot be opened; the current track is kept in that case.
+   * @remarks The new track replaces the old one on every peer (the camera is only sent when no
+   * screen share is active) and inherits the current mute/camera-off state.
+   */
+  async switchDevice(kind: CallInputKind, deviceId?: string): Promise<void> {
+    if (!this.localStream) return;
+
+    const constraints: MediaTrackConstraints | boolean = deviceId ? { deviceId: { exact: deviceId } } : true;
+    const captured = await navigator.mediaDevices.getUserMedia(
+      kind === "audioinput" ? { audio: constraints } : { video: constraints }
+    );
+    const [nextTrack] = kind === "audioinput" ? captured.getAudioTracks() : captured.getVideoTracks();
+    if (!nextTrack || !this.localStream) {
+      captured.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const previous =
+      kind === "audioinput" ? this.localStream.getAudioTracks()[0] ?? null : this.getCameraTrack();
+    nextTrack.enabled = kind === "audioinput" ? this.mediaState.audio : this.mediaState.video;
+
+    this.peers.forEach(({ peer }) => {
+      if (kind === "videoinput" && this.screenTrack) return;
+      this.replaceOutgoingTrack(peer, previous, nextTrack);
+    });
+
+    if (previous) {
+      this.localStream.removeTrack(previous);
+      previous.stop();
+    }
+    this.localStream.addTrack(nextTrack);
+    console.log("[CallManager] Dispositivo cambiado:", kind, nextTrack.label);
+    this.emit("localStream", this.localStream);
+  }
+
+  // --- Métodos privados ---
+
+  private emit<K extends keyof CallEvents>(event: K, ...args: Parameters<CallEvents[K]>): void {
+    this.listeners.get(event)?.forEach((handler) => handler(...args));
+  }
+
+  private setConnectionState(state: CallConnectionState): void {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.emit("stateChange", state);
+  }
+
+  private async acquireLocalMedia({ audioInputId, videoInputId }: CallJoinOptions): Promise<MediaStream> {
+    // `ideal` evita fallar si el dispositivo guardado ya no está conectado
+    const audio: MediaTrackConstraints | boolean = audioInputId ? { deviceId: { ideal: audioInputId } } : true;
+    const video: MediaTrackConstraints | boolean = videoInputId ? { deviceId: { ideal: videoInputId } } : true;
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio, video });
+    } catch (err) {
+      console.warn("[CallManager] Cámara no disponible, usando solo audio:", err);
+      this.mediaState = { ...this.mediaState, video: false };
+      return navigator.mediaDevices.getUserMedia({ audio });
+    }
+  }
+
+  private async createSession(meetingId: string): Promise<VoiceSession | null> {
+    try {
+      const session = await createVoiceSession(meetingId);
+      this.scheduleSessionRefresh(session);
+      return session;
+    } catch (err) {
+      console.warn("[CallManager] No se pudo crear la sesión de voz, continuando sin token:", err);
+      return null;
+    }
+  }
+
+  private scheduleSessionRefresh(session: VoiceSession): void {
+    this.clearSessionRefresh();
+    const expiresAt = new Date(session.expiresAt).getTime();
+    if (Number.isNaN(expiresAt)) return;
+
+    const delay = Math.max(expiresAt - Date.now() - SESSION_REFRESH_BUFFER_MS, 5_000);
+    this.sessionRefreshTimer = window.setTimeout(async () => {
+      if (!this.meetingId) return;
+      try {
+        const next = await createVoiceSession(this.meetingId);
+        this.session = next;
+        // El token solo viaja en el handshake: actualizarlo para futuras reconexiones
+        if (this.socket) this.socket.auth = { token: next.token };
+        this.scheduleSessionRefresh(next);
+      } catch (err) {
+        console.error("[CallManager] Error renovando sesión de voz:", err);
+      }
+    }, delay);
+  }
+
+  private clearSessionRefresh(): void {
+    if (this.sessionRefreshTimer) {
+      window.clearTimeout(this.sessionRefreshTimer);
+      this.sessionRefreshTimer = null;
+    }
+  }
+
+  private connectSocket(serverUrl: string, meetingId: string): Promise<Socket> {
+    console.log("[CallManager] Conectando al servidor de señalización:", serverUrl);
+
+    const socket = io(serverUrl, {
+      transports: ["websocket"],
+      query: { meetingId },
+      auth: { token: this.session?.token },
+      reconnection: true,
+      reconnectionAttempts: SOCKET_RECONNECT_ATTEMPTS,
+      reconnectionDelayMax: 10_000,
+    });
+    this.socket = socket;
+    let hasConnected = false;
+
+    socket.on("connect", () => {
+      console.log("[CallManager] Socket conectado, ID:", socket.id);
+      if (!hasConnected) {
+        hasConnected = true;
+        return;
+      }
+      // Reconexión: el servidor asignó un nuevo ID y nos reintroducirá en la sala
+      this.handleSignalingReconnect();
+      this.setConnectionState("connected");
+    });
+
+    socket.on("introduction", (remotePeers: string[] = []) => {
+      console.log("[CallManager] Introduction - peers existentes:", remotePeers);
+      remotePeers.forEach((peerId) => this.ensurePeer(peerId, true));
+    });
+
+    socket.on("newUserConnected", (peerId: string) => {
+      console.log("[CallManager] Nuevo usuario conectado:", peerId);
+      // El recién llegado inicia la conexión; dejamos un peer listo para su señal
+      this.ensurePeer(peerId, false);
+    });
+
+    socket.on("signal", (to: string, from: string, data: Peer.SignalData) => {
+      if (to !== socket.id) return;
+      // Solo una oferta puede crear un peer; respuestas o pedidos de renegociación huérfanos se ignoran
+      if (!this.peers.has(from) && data.type !== "offer") return;
+      const peer = this.ensurePeer(from, false);
+      // Solo el iniciador oferta: si el otro lado pide reiniciar ICE, la oferta debe llevarlo
+      const wantsIceRestart = data.type === "renegotiate" && (data as RenegotiateSignal).iceRestart;
+      if (peer && wantsIceRestart && this.peers.get(from)?.initiator) {
+        (peer as PeerInternals).offerOptions = { iceRestart: true };
+      }
+      peer?.signal(data);
+    });
+
+    socket.on("userDisconnected", (peerId: string) => {
+      console.log("[CallManager] Usuario desconectado:", peerId);
+      this.teardownPeer(peerId);
+    });
+
+    socket.on("error", (message: string) => {
+      console.error("[CallManager] Error del servidor de señalización:", message);
+      this.emit("error", { code: "signaling", message });
+    });
+
+    socket.on("disconnect", (reason) => {
+      console.log("[CallManager] Socket desconectado:", reason);
+      if (reason === "io client disconnect" || !hasConnected) return;
+      this.setConnectionState("reconnecting");
+      // Si el servidor cerró la conexión, Socket.IO no reintenta por sí solo
+      if (reason === "io server disconnect") socket.connect();
+    });
+
+    socket.io.on("reconnect_attempt", (attempt) => {
+      console.log("[CallManager] Reintentando conexión de señalización, intento:", attempt);
+    });
+
+    socket.io.on("reconnect_failed", () => {
+      console.error("[CallManager] No se pudo reconectar al servidor de señalización");
+      this.releaseResources();
+      this.setConnectionState("error");
+      this.emit("error", { code: "reconnect_failed", message: "Se perdió la conexión con la llamada" });
+    });
+
+    return new Promise((resolve, reject) => {
+      socket.once("connect", () => {
+        socket.off("connect_error", reject);
+        resolve(socket);
+      });
+      socket.once("connect_error", reject);
+    });
+  }
+
+  /**
+   * Drops every peer after the socket gets a new id; the introduction that follows rebuilds them.
+   */
+  private handleSignalingReconnect(): void {
+    this.peers.forEach((entry, peerId) => this.awaitRejoin(peerId, entry));
+  }
+
+  /**
+   * Keeps a peer's tile in `reconnecting` until signaling reintroduces it or the timeout expires.
+   */
+  private awaitRejoin(peerId: string, entry: PeerEntry): void {
+    this.destroyPeerInstance(entry);
+    this.peers.delete(peerId);
+    this.setPeerState(peerId, entry, "reconnecting");
+
+    const timer = window.setTimeout(() => {
+      this.rejoinTimers.delete(peerId);
+      if (!this.peers.has(peerId)) this.emit("peerLeft", peerId);
+    }, PEER_REJOIN_TIMEOUT_MS);
+    this.rejoinTimers.set(peerId, timer);
+  }
+
+  private ensurePeer(peerId: string, initiator: boolean): Peer.Instance | null {
+    if (!this.socket || peerId === this.socket.id) return null;
+    const existing = this.peers.get(peerId);
+    if (existing) {
+      // Llega señal durante el backoff: reconstruir ya para no señalizar un peer destruido
+      if (existing.retryTimer) this.rebuildPeer(peerId, existing);
+      return existing.peer;
+    }
+
+    const rejoinTimer = this.rejoinTimers.get(peerId);
+    if (rejoinTimer) {
+      window.clearTimeout(rejoinTimer);
+      this.rejoinTimers.delete(peerId);
+    }
+
+    const entry: PeerEntry = {
+      peer: this.createPeer(peerId, initiator),
+      initiator,
+      state: "connecting",
+      retries: 0,
+      iceTimer: null,
+      retryTimer: null,
+    };
+    this.peers.set(peerId, entry);
+    this.bindPeer(peerId, entry);
+    return entry.peer;
+  }
+
+  private createPeer(peerId: string, initiator: boolean): Peer.Instance {
+    console.log("[CallManager] Creando peer:", peerId, "initiator:", initiator);
+    return new Peer({
+      initiator,
+      trickle: false,
+      stream: this.localStream ?? undefined,
+      config: { iceServers: this.iceServers },
+    });
+  }
+
+  private bindPeer(peerId: string, entry: PeerEntry): void {
+    const { peer } = entry;
+
+    peer.on("signal", (data: Peer.SignalData) => {
+      // simple-peer no dice por qué pide renegociar; avisar al iniciador si es por un ICE restart
+      const signal: Peer.SignalData | RenegotiateSignal =
+        data.type === "renegotiate" && (peer as PeerInternals).offerOptions?.iceRestart
+          ? { ...data, iceRestart: true }
+          : data;
+      this.socket?.emit("signal", peerId, this.socket.id, signal);
+    });
+
+    peer.on("connect", () => {
+      entry.retries = 0;
+      this.setPeerState(peerId, entry, "connected");
+
+      // Si ya estamos compartiendo pantalla, el nuevo peer debe recibirla en lugar de la cámara
+      if (this.screenTrack) this.replaceOutgoingTrack(peer, this.getCameraTrack(), this.screenTrack);
+
+      // Anunciar identidad y estado de media para que el peer pueda etiquetar nuestro video
+      const { user } = useAuthStore.getState();
+      if (user) {
+        this.sendToPeer(peer, {
+          type: "identity",
+          userId: user.id,
+          userName: `${user.firstName} ${user.lastName}`.trim(),
+        });
+      }
+      this.sendToPeer(peer, { type: "media-state", ...this.mediaState });
+    });
+
+    peer.on("iceStateChange", (iceState: RTCIceConnectionState) => {
+      this.handleIceStateChange(peerId, entry, iceState);
+    });
+
+    peer.on("data", (raw: Uint8Array | string) => this.handlePeerData(peerId, raw));
+
+    peer.on("stream", (stream: MediaStream) => {
+      console.log("[CallManager] Stream remoto recibido de:", peerId);
+      this.emit("remoteStream", peerId, stream);
+    });
+
+    peer.on("close", () => this.handlePeerFailure(peerId, entry));
+
+    peer.on("error", (err) => {
+      console.error("[CallManager] Error en peer", peerId, err);
+      this.handlePeerFailure(peerId, entry);
+    });
+  }
+
+  private handleIceStateChange(peerId: string, entry: PeerEntry, iceState: RTCIceConnectionState): void {
+    if (iceState === "connected" || iceState === "completed") {
+      this.clearIceTimer(entry);
+      (entry.peer as PeerInternals).offerOptions = {};
+      if (entry.peer.connected) this.setPeerState(peerId, entry, "connected");
+      return;
+    }
+
+    if (iceState === "disconnected" && !entry.iceTimer) {
+      this.setPeerState(peerId, entry, "reconnecting");
+      // ICE suele recuperarse solo; si no, forzar un ICE restart
+      entry.iceTimer = window.setTimeout(() => {
+        entry.iceTimer = null;
+        this.restartIce(peerId, entry);
+      }, ICE_DISCONNECT_GRACE_MS);
+    }
+    // 'failed' destruye el peer en simple-peer y se reconstruye desde handlePeerFailure
+  }
+
+  /**
+   * Renegotiates with `iceRestart`. The non-initiator cannot offer, so it sends the initiator a
+   * renegotiation request flagged with `iceRestart`, and the initiator restarts ICE in its offer.
+   */
+  private restartIce(peerId: string, entry: PeerEntry): void {
+    if (this.peers.get(peerId) !== entry || entry.peer.destroyed) return;
+    console.log("[CallManager] ICE restart con:", peerId);
+    try {
+      const peer = entry.peer as PeerInternals;
+      peer.offerOptions = { iceRestart: true };
+      peer.negotiate();
+    } catch (err) {
+      console.warn("[CallManager] No se pudo reiniciar ICE con", peerId, err);
+      this.handlePeerFailure(peerId, entry);
+    }
+  }
+
+  /**
+   * Rebuilds a failed peer with exponential backoff, keeping its tile in `reconnecting`.
+   */
+  private handlePeerFailure(peerId: string, entry: PeerEntry): void {
+    if (this.peers.get(peerId) !== entry || entry.retryTimer) return;
+    this.destroyPeerInstance(entry);
+
+    // Sin señalización no se puede renegociar: esperar a que el servidor nos reintroduzca
+    if (!this.socket?.connected) {
+      this.awaitRejoin(peerId, entry);
+      return;
+    }
+    if (entry.retries >= PEER_MAX_RETRIES) {
+      console.warn("[CallManager] Se agotaron los reintentos con:", peerId);
+      this.teardownPeer(peerId);
+      return;
+    }
+
+    const delay = Math.min(PEER_RETRY_BASE_MS * 2 ** entry.retries, PEER_RETRY_MAX_MS);
+    entry.retries += 1;
+    this.setPeerState(peerId, entry, "reconnecting");
+    console.log(`[CallManager] Reconstruyendo peer ${peerId} en ${delay} ms (intento ${entry.retries})`);
+
+    entry.retryTimer = window.setTimeout(() => this.rebuildPeer(peerId, entry), delay);
+  }
+
+  private rebuildPeer(peerId: string, entry: PeerEntry): void {
+    if (entry.retryTimer) {
+      window.clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    if (this.peers.get(peerId) !== entry) return;
+    entry.peer = this.createPeer(peerId, entry.initiator);
+    this.bindPeer(peerId, entry);
+  }
+
+  private setPeerState(peerId: string, entry: PeerEntry, state: PeerConnectionState): void {
+    if (entry.state === state) return;
+    entry.state = state;
+    this.emit("peerConnectionState", peerId, state);
+  }
+
+  private handlePeerData(peerId: string, raw: Uint8Array | string): void {
+    try {
+      const message = JSON.parse(raw.toString()) as PeerDataMessage;
+      if (message.type === "identity") {
+        this.emit("peerIdentity", peerId, { userId: message.userId, userName: message.userName });
+      } else if (message.type === "media-state") {
+        this.emit("peerMediaState", peerId, {
+          audio: message.audio,
+          video: message.video,
+          screen: message.screen,
+        });
+      }
+    } catch (err) {
+      console.warn("[CallManager] Mensaje de data channel inválido de", peerId, err);
+    }
+  }
+
+  private clearIceTimer(entry: PeerEntry): void {
+    if (entry.iceTimer) {
+      window.clearTimeout(entry.iceTimer);
+      entry.iceTimer = null;
+    }
+  }
+
+  private destroyPeerInstance(entry: PeerEntry): void {
+    this.clearIceTimer(entry);
+    if (entry.retryTimer) {
+      window.clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    entry.peer.removeAllListeners();
+    entry.peer.destroy();
+  }
+
+  private teardownPeer(peerId: string): void {
+    const rejoinTimer = this.rejoinTimers.get(peerId);
+    if (rejoinTimer) {
+      window.clearTimeout(rejoinTimer);
+      this.rejoinTimers.delete(peerId);
+      this.emit("peerLeft", peerId);
+    }
+
+    const entry = this.peers.get(peerId);
+    if (!entry) return;
+    this.destroyPeerInstance(entry);
+    this.peers.delete(peerId);
+    this.emit("peerLeft", peerId);
+  }
+
+  private sendToPeer(peer: Peer.Instance, message: PeerDataMessage): void {
+    if (!peer.connected) return;
+    try {
+      peer.send(JSON.stringify(message));
+    } catch (err) {
+      console.warn("[CallManager] No se pudo enviar mensaje por data channel:", err);
+    }
+  }
+
+  private broadcastMediaState(): void {
+    this.peers.forEach(({ peer }) => this.sendToPeer(peer, { type: "media-state", ...this.mediaState }));
+  }
+
+  private applyTrackState(): void {
+    this.localStream?.getAudioTracks().forEach((track) => {
+      track.enabled = this.mediaState.audio;
+    });
+    this.localStream?.getVideoTracks().forEach((track) => {
+      track.enabled = this.mediaState.video;
+    });
+  }
+
+  private getCameraTrack(): MediaStreamTrack | null {
+    return this.localStream?.getVideoTracks()[0] ?? null;
+  }
+
+  /**
+   * Swaps an outgoing track of a connected peer; adds/removes it when one side is missing.
+   */
+  private replaceOutgoingTrack(
+    peer: Peer.Instance,
+    from: MediaStreamTrack | null,
+    to: MediaStreamTrack | null
+  ): void {
+    if (!peer.connected || !this.localStream || from === to) return;
+    try {
+      if (from && to) {
+        peer.replaceTrack(from, to, this.localStream);
+      } else if (to) {
+        peer.addTrack(to, this.localStream);
+      } else if (from) {
+        peer.removeTrack(from, this.localStream);
+      }
+    } catch (err) {
+      console.warn("[CallManager] No se pudo reemplazar la pista:", err);
+    }
+  }
+
+  private releaseResources(): void {
+    this.clearSessionRefresh();
+
+    this.peers.forEach((entry) => this.destroyPeerInstance(entry));
+    this.peers.clear();
+    this.rejoinTimers.forEach((timer) => window.clearTimeout(timer));
+    this.rejoinTimers.clear();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => track.stop());
+      this.localStream = null;
+      this.emit("localStream", null);
+    }
+
+    this.screenTrack = null;
+    this.session = null;
+    this.meetingId = null;
+  }
 }
 
-export { voiceEvents, currentMeetingId };
+/** Singleton call manager instance. */
+export const callManager = new CallManager();
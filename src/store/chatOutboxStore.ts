@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { SendMessagePayload } from '@/services/chat';
+
+/** Chat message waiting for the server to confirm it. */
+export interface OutboxEntry {
+  payload: SendMessagePayload;
+  /** `sending` entries are delivered on the next (re)connection; `failed` ones wait for a retry. */
+  status: 'sending' | 'failed';
+}
+
+interface ChatOutboxState {
+  entries: OutboxEntry[];
+  getEntries: (meetingId: string) => OutboxEntry[];
+  /** Adds a message; a `messageId` already queued is ignored. */
+  enqueue: (payload: SendMessagePayload) => void;
+  setStatus: (messageId: string, status: OutboxEntry['status']) => void;
+  remove: (messageId: string) => void;
+}
+
+/**
+ * Persisted outbox of chat messages not yet confirmed by the server, so they survive reloads
+ * and connection drops.
+ */
+export const useChatOutboxStore = create<ChatOutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      getEntries: (meetingId) => get().entries.filter((entry) => entry.payload.meetingId === meetingId),
+      enqueue: (payload) =>
+        set((state) =>
+          state.entries.some((entry) => entry.payload.messageId === payload.messageId)
+            ? state
+            : { entries: [...state.entries, { payload, status: 'sending' }] }
+        ),
+      setStatus: (messageId, status) =>
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.payload.messageId === messageId ? { ...entry, status } : entry
+          ),
+        })),
+      remove: (messageId) =>
+        set((state) => ({
+          entries: state.entries.filter((entry) => entry.payload.messageId !== messageId),
+        })),
+    }),
+    {
+      name: 'joingo-chat-outbox',
+    }
+  )
+);
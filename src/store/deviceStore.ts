@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** Media devices chosen by a user; `undefined` means the browser default. */
+export interface DevicePreferences {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+interface DeviceState {
+  /** Preferences keyed by user id, so shared browsers keep each user's choices. */
+  preferences: Record<string, DevicePreferences>;
+  getPreferences: (userId: string) => DevicePreferences;
+  setPreferences: (userId: string, patch: Partial<DevicePreferences>) => void;
+}
+
+const EMPTY_PREFERENCES: DevicePreferences = {};
+
+/**
+ * Persisted camera, microphone and speaker selection per user.
+ */
+export const useDeviceStore = create<DeviceState>()(
+  persist(
+    (set, get) => ({
+      preferences: {},
+      getPreferences: (userId) => get().preferences[userId] ?? EMPTY_PREFERENCES,
+      setPreferences: (userId, patch) =>
+        set((state) => ({
+          preferences: {
+            ...state.preferences,
+            [userId]: { ...state.preferences[userId], ...patch },
+          },
+        })),
+    }),
+    {
+      name: 'joingo-devices',
+    }
+  )
+);
@@ -4,6 +4,9 @@ import { persist } from 'zustand/middleware';
 /** Lifecycle status for a meeting. */
 export type MeetingStatus = 'active' | 'inactive' | 'closed';
 
+/** Per-meeting role; `host` is derived from `hostUid`, the rest from `Meeting.roles`. */
+export type MeetingRole = 'host' | 'cohost' | 'participant' | 'viewer';
+
 /** Feature toggles per meeting as returned by backend metadata. */
 export interface MeetingSettings {
   chat?: boolean;
@@ -11,6 +14,8 @@ export interface MeetingSettings {
   privateRoom?: boolean;
   screenSharing?: boolean;
   requirePassword?: boolean;
+  /** Rejects new joiners while true; participants already in the call stay. */
+  locked?: boolean;
 }
 
 /**
@@ -33,6 +38,8 @@ export interface Meeting {
   description?: string;
   duration?: string;
   settings?: MeetingSettings;
+  /** Explicit roles keyed by user id; users not listed are participants. */
+  roles?: Record<string, MeetingRole>;
   metadata?: Record<string, unknown>;
   voiceRoomId?: string;
 }
@@ -48,6 +55,8 @@ interface MeetingState {
   getMeetingById: (id: string) => Meeting | undefined;
   getMeetingByIdOrCode: (idOrCode: string) => Meeting | undefined;
   getUpcomingMeetings: () => Meeting[];
+  /** Meetings already over (or closed by the host), most recent first. */
+  getPastMeetings: () => Meeting[];
 }
 
 /**
@@ -99,6 +108,16 @@ export const useMeetingStore = create<MeetingState>()(
             return dateA.getTime() - dateB.getTime();
           });
       },
+      getPastMeetings: () => {
+        const now = new Date();
+        return get()
+          .meetings.filter((m) => m.status === 'closed' || new Date(`${m.date}T${m.endTime}`) < now)
+          .sort((a, b) => {
+            const dateA = new Date(`${a.date}T${a.startTime}`);
+            const dateB = new Date(`${b.date}T${b.startTime}`);
+            return dateB.getTime() - dateA.getTime();
+          });
+      },
     }),
     {
       name: 'joingo-meetings',
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** Which chat messages trigger a notification. */
+export type ChatNotifyLevel = 'all' | 'mentions';
+
+/** Chat notification settings chosen by a user. */
+export interface ChatNotificationPreferences {
+  /** Opt-in browser notifications while the meeting tab is hidden. */
+  desktop: boolean;
+  /** `mentions` only notifies about mentions and private messages. */
+  notifyOn: ChatNotifyLevel;
+}
+
+export const DEFAULT_CHAT_NOTIFICATIONS: ChatNotificationPreferences = {
+  desktop: false,
+  notifyOn: 'all',
+};
+
+interface NotificationState {
+  /** Preferences keyed by user id, so shared browsers keep each user's choices. */
+  preferences: Record<string, Partial<ChatNotificationPreferences>>;
+  setPreferences: (userId: string, patch: Partial<ChatNotificationPreferences>) => void;
+}
+
+/**
+ * Persisted chat notification preferences per user.
+ */
+export const useNotificationStore = create<NotificationState>()(
+  persist(
+    (set) => ({
+      preferences: {},
+      setPreferences: (userId, patch) =>
+        set((state) => ({
+          preferences: {
+            ...state.preferences,
+            [userId]: { ...state.preferences[userId], ...patch },
+          },
+        })),
+    }),
+    {
+      name: 'joingo-notifications',
+    }
+  )
+);
@@ -97,12 +97,18 @@ export default {
           "0%, 100%": { opacity: "1" },
           "50%": { opacity: "0.5" },
         },
+        "float-up": {
+          "0%": { opacity: "0", transform: "translateY(0) scale(0.6)" },
+          "15%": { opacity: "1", transform: "translateY(-20px) scale(1)" },
+          "100%": { opacity: "0", transform: "translateY(-240px) scale(1)" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
         "fade-in": "fade-in 0.5s ease-out forwards",
         "slide-up": "slide-up 0.5s ease-out forwards",
+        "float-up": "float-up 3s ease-out forwards",
         "scale-in": "scale-in 0.3s ease-out forwards",
         pulse: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
       },